@@ -50,8 +50,11 @@ import {
 import { Buffer } from 'https://deno.land/std@0.177.0/io/buffer.ts';
 // 导入轻量级 S3 客户端，用于阿里云 OSS 文件上传
 import { S3Client } from 'https://deno.land/x/s3_lite_client@0.7.0/mod.ts';
-// 导入 base64 解码工具，用于处理图片数据
-import { decode } from 'https://deno.land/std@0.208.0/encoding/base64.ts';
+// 导入 base64 编解码工具，用于处理图片数据
+import {
+  decode,
+  encode
+} from 'https://deno.land/std@0.208.0/encoding/base64.ts';
 
 // --- 1.5. Qwen OSS 上传逻辑 ---
 
@@ -59,7 +62,9 @@ import { decode } from 'https://deno.land/std@0.208.0/encoding/base64.ts';
 const UPLOAD_CONFIG = {
   stsTokenUrl: 'https://chat.qwen.ai/api/v1/files/getstsToken', // STS 令牌获取 API 地址
   maxRetries: 3, // 最大重试次数
-  timeout: 30000 // 超时时间（毫秒）
+  timeout: 30000, // 超时时间（毫秒）
+  remoteImageTimeout: 15000, // 下载远程图像的超时时间（毫秒）
+  maxRedirects: 3 // 下载远程图像时允许的最大重定向次数
 };
 
 /**
@@ -71,7 +76,7 @@ const UPLOAD_CONFIG = {
  *
  * @param filename 文件名
  * @param filesize 文件大小（字节）
- * @param filetype 文件类型（'image' 或 'file'）
+ * @param filetype 文件类型（'image'、'audio' 或 'file'）
  * @param authToken Qwen 认证令牌
  * @param retryCount 当前重试次数（用于递归重试）
  * @returns 包含 STS 凭证和 OSS 信息的对象
@@ -140,35 +145,384 @@ async function requestStsToken(
   }
 }
 
+// 按扩展名区分的 Office 文档 MIME 类型（ZIP/OLE 容器无法仅凭文件头区分）
+const OFFICE_MIME_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  ppt: 'application/vnd.ms-powerpoint'
+};
+
+// 按扩展名区分的文本文件 MIME 类型（未列出的文本文件使用 text/plain）
+const TEXT_MIME_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+  xml: 'application/xml'
+};
+
+/**
+ * 根据文件内容的字节（文件头）检测 MIME 类型
+ * 容器格式（Office 文档）和文本文件再结合文件扩展名细分
+ *
+ * @param bytes 文件内容的字节数组
+ * @param filename 文件名（用于细分容器格式和文本类型）
+ * @returns 检测到的 MIME 类型
+ */
+function detectMimeType(bytes: Uint8Array, filename: string): string {
+  const startsWith = (...signature: number[]) =>
+    signature.every((byte, index) => bytes[index] === byte);
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end));
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+
+  if (startsWith(0x89, 0x50, 0x4e, 0x47)) return 'image/png';
+  if (startsWith(0xff, 0xd8, 0xff)) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  // BMP 只有两字节魔数，需再校验 DIB 头大小，避免把 "BM" 开头的文本误判为图片
+  if (
+    ascii(0, 2) === 'BM' &&
+    bytes.length >= 18 &&
+    [12, 40, 108, 124].includes(
+      new DataView(bytes.buffer, bytes.byteOffset, 18).getUint32(14, true)
+    )
+  ) {
+    return 'image/bmp';
+  }
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'audio/wav';
+  // MP3：ID3 标签或 MPEG 音频帧同步字（11 位 1，且 Layer 字段非保留值）
+  if (
+    ascii(0, 3) === 'ID3' ||
+    (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0)
+  ) {
+    return 'audio/mpeg';
+  }
+  if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+
+  // ZIP 容器：docx/xlsx/pptx
+  if (startsWith(0x50, 0x4b, 0x03, 0x04)) {
+    return OFFICE_MIME_TYPES[extension] || 'application/zip';
+  }
+  // OLE 复合文档：doc/xls/ppt
+  if (startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) {
+    return OFFICE_MIME_TYPES[extension] || 'application/x-ole-storage';
+  }
+
+  // 开头部分不含空字节且是合法 UTF-8 的内容视为文本
+  const sample = bytes.subarray(0, 8192);
+  if (!sample.includes(0)) {
+    try {
+      // stream 模式下截断在多字节字符中间不会报错
+      new TextDecoder('utf-8', { fatal: true }).decode(sample, {
+        stream: true
+      });
+      return TEXT_MIME_TYPES[extension] || 'text/plain';
+    } catch {
+      // 非 UTF-8 内容，按二进制处理
+    }
+  }
+  return 'application/octet-stream';
+}
+
+/**
+ * 判断 IPv4 地址是否属于私有、回环、链路本地等不允许访问的地址段
+ * @param bytes IPv4 地址的 4 个字节
+ * @returns 是否为内部地址
+ */
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // 本网络
+    a === 10 || // 私有网络
+    a === 127 || // 回环地址
+    (a === 100 && b >= 64 && b <= 127) || // 运营商级 NAT
+    (a === 169 && b === 254) || // 链路本地（含云元数据服务）
+    (a === 172 && b >= 16 && b <= 31) || // 私有网络
+    (a === 192 && b === 168) || // 私有网络
+    (a === 192 && b === 0) || // IETF 保留
+    (a === 198 && (b === 18 || b === 19)) || // 基准测试网络
+    a >= 224 // 组播和保留地址
+  );
+}
+
+/**
+ * 解析 IPv4 点分地址
+ * @param address IPv4 地址字符串
+ * @returns 4 个字节，格式不合法时返回 null
+ */
+function parseIPv4(address: string): number[] | null {
+  const match = address.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return null;
+  const bytes = match.slice(1).map(Number);
+  return bytes.every(byte => byte <= 255) ? bytes : null;
+}
+
+/**
+ * 解析 IPv6 地址（支持 :: 缩写、末尾内嵌 IPv4 和 %zone 后缀）
+ * @param address IPv6 地址字符串
+ * @returns 16 个字节，格式不合法时返回 null
+ */
+function parseIPv6(address: string): number[] | null {
+  const [head, tail, ...rest] = address.split('%')[0].split('::');
+  if (rest.length > 0) return null;
+
+  // 将一侧的分组转换为 16 位整数，末尾内嵌的 IPv4 占两个分组
+  const toGroups = (part: string | undefined): number[] | null => {
+    if (!part) return [];
+    const groups: number[] = [];
+    const items = part.split(':');
+    for (let i = 0; i < items.length; i++) {
+      const v4 = i === items.length - 1 ? parseIPv4(items[i]) : null;
+      if (v4) {
+        groups.push((v4[0] << 8) | v4[1], (v4[2] << 8) | v4[3]);
+      } else if (/^[0-9a-f]{1,4}$/.test(items[i])) {
+        groups.push(parseInt(items[i], 16));
+      } else {
+        return null;
+      }
+    }
+    return groups;
+  };
+
+  const left = toGroups(head);
+  const right = toGroups(tail);
+  if (!left || !right) return null;
+  const missing = 8 - left.length - right.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...left, ...new Array(missing).fill(0), ...right];
+  return groups.flatMap(group => [group >> 8, group & 0xff]);
+}
+
+/**
+ * 判断 IP 地址是否属于私有、回环、链路本地等不允许访问的地址段
+ *
+ * IPv6 地址按字节解析，IPv4 映射（::ffff:0:0/96）、IPv4 兼容（::/96）、
+ * NAT64（64:ff9b::/96、64:ff9b:1::/48）、6to4（2002::/16）和 Teredo（2001::/32）
+ * 地址中内嵌的 IPv4 地址按 IPv4 规则判断；无法解析的地址一律视为内部地址
+ *
+ * @param ip IPv4 或 IPv6 地址
+ * @returns 是否为内部地址
+ */
+function isPrivateAddress(ip: string): boolean {
+  const address = ip.replace(/^\[|\]$/g, '').toLowerCase();
+
+  const v4 = parseIPv4(address);
+  if (v4) return isPrivateIPv4(v4);
+
+  const bytes = parseIPv6(address);
+  if (!bytes) return true;
+  const prefixIs = (prefix: number[]) =>
+    prefix.every((byte, index) => bytes[index] === byte);
+  const zeros = (count: number) => new Array(count).fill(0);
+
+  // 未指定地址 :: 和回环地址 ::1
+  if (prefixIs(zeros(15)) && bytes[15] <= 1) return true;
+  // IPv4 映射和 IPv4 兼容地址
+  if (prefixIs([...zeros(10), 0xff, 0xff]) || prefixIs(zeros(12))) {
+    return isPrivateIPv4(bytes.slice(12));
+  }
+  // NAT64 地址
+  if (
+    prefixIs([0, 0x64, 0xff, 0x9b, ...zeros(8)]) ||
+    prefixIs([0, 0x64, 0xff, 0x9b, 0, 1])
+  ) {
+    return isPrivateIPv4(bytes.slice(12));
+  }
+  // 6to4 地址，内嵌 IPv4 位于第 2-5 字节
+  if (prefixIs([0x20, 0x02])) return isPrivateIPv4(bytes.slice(2, 6));
+  // Teredo 地址，客户端 IPv4 按位取反后位于末尾 4 字节
+  if (prefixIs([0x20, 0x01, 0, 0])) {
+    return isPrivateIPv4(bytes.slice(12).map(byte => byte ^ 0xff));
+  }
+
+  return (
+    (bytes[0] & 0xfe) === 0xfc || // 唯一本地地址 fc00::/7
+    (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) || // 链路本地地址 fe80::/10
+    bytes[0] === 0xff // 组播地址 ff00::/8
+  );
+}
+
+/**
+ * 检查 URL 是否可以安全访问并解析出要连接的地址（SSRF 防护）
+ * 只允许 http/https，且主机名解析出的所有地址都必须是公网地址
+ *
+ * @param url 待检查的 URL
+ * @returns 已校验的 IP 地址（后续请求固定连接该地址，防止 DNS 重绑定）
+ */
+async function resolvePublicAddress(url: URL): Promise<string> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`不支持的协议: ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) {
+    addresses = [hostname];
+  } else {
+    const results = await Promise.allSettled([
+      Deno.resolveDns(hostname, 'A'),
+      Deno.resolveDns(hostname, 'AAAA')
+    ]);
+    addresses = results.flatMap(result =>
+      result.status === 'fulfilled' ? result.value : []
+    );
+    if (addresses.length === 0) {
+      throw new Error(`无法解析主机: ${hostname}`);
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`禁止访问内部地址: ${hostname}`);
+  }
+  return addresses[0];
+}
+
+/**
+ * 下载远程图像（带超时、大小限制和 SSRF 防护）
+ *
+ * 每次重定向都会重新检查目标地址，并通过固定连接地址的 HTTP 客户端发起请求，
+ * 避免校验后再次解析 DNS 时被重绑定到内部地址；下载过程中超过大小限制立即中止
+ *
+ * @param imageUrl 远程图像 URL
+ * @returns 图像内容的字节数组
+ */
+async function downloadRemoteImage(imageUrl: string): Promise<Uint8Array> {
+  const signal = AbortSignal.timeout(UPLOAD_CONFIG.remoteImageTimeout);
+  let url = new URL(imageUrl);
+  let response: Response | null = null;
+  let client: Deno.HttpClient | null = null;
+
+  try {
+    for (let i = 0; i <= UPLOAD_CONFIG.maxRedirects; i++) {
+      const address = await resolvePublicAddress(url);
+      client?.close();
+      client = Deno.createHttpClient({
+        proxy: {
+          transport: 'tcp',
+          hostname: address,
+          port: Number(url.port) || (url.protocol === 'https:' ? 443 : 80)
+        }
+      });
+      response = await fetch(url, { redirect: 'manual', signal, client });
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        url = new URL(location, url);
+        response = null;
+        continue;
+      }
+      break;
+    }
+
+    return await readRemoteImageBody(response);
+  } finally {
+    client?.close();
+  }
+}
+
+/**
+ * 读取远程图像响应体（超过大小限制时立即中止）
+ * @param response 最终的响应（重定向次数过多时为 null）
+ * @returns 图像内容的字节数组
+ */
+async function readRemoteImageBody(
+  response: Response | null
+): Promise<Uint8Array> {
+  if (!response) throw new Error('重定向次数过多');
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`下载失败：HTTP ${response.status}`);
+  }
+
+  const declaredSize = Number(response.headers.get('content-length'));
+  if (declaredSize > config.maxFileSize) {
+    await response.body.cancel();
+    throw new Error(`图像大小 ${declaredSize} 字节超过限制`);
+  }
+
+  // 边读取边统计大小，超过限制时立即中止
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > config.maxFileSize) {
+      await reader.cancel();
+      throw new Error(`图像大小超过限制 ${config.maxFileSize} 字节`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
 /**
  * 使用 STS 凭证将文件上传到 Qwen 的阿里云 OSS
  *
  * 工作流程：
- * 1. 根据文件扩展名确定 MIME 类型
+ * 1. 检查文件大小限制，命中内容哈希缓存时直接返回，否则根据文件内容确定 MIME 类型
  * 2. 请求 STS 临时凭证
  * 3. 使用 STS 凭证配置 S3 客户端
  * 4. 上传文件到 OSS
- * 5. 返回文件 URL 和 ID
+ * 5. 返回文件 URL 和 ID，并按内容哈希写入缓存
  *
  * @param fileBuffer 文件内容的字节数组
  * @param originalFilename 原始文件名
  * @param qwenAuthToken Qwen 认证令牌
- * @returns 包含上传文件 URL 和 ID 的对象
+ * @returns 包含上传文件 URL、ID 和 MIME 类型的对象
  */
 async function uploadFileToQwenOss(
   fileBuffer: Uint8Array,
   originalFilename: string,
   qwenAuthToken: string
-): Promise<{ file_url: string; file_id: string }> {
+): Promise<{ file_url: string; file_id: string; mime_type: string }> {
   const filesize = fileBuffer.length;
-  // 根据文件扩展名确定 MIME 类型
-  const mimeType = originalFilename.endsWith('.png')
-    ? 'image/png'
-    : originalFilename.endsWith('.jpg') || originalFilename.endsWith('.jpeg')
-    ? 'image/jpeg'
-    : 'application/octet-stream'; // 默认二进制类型
+  if (filesize > config.maxFileSize) {
+    throw new Error(
+      `文件大小 ${filesize} 字节超过限制 ${config.maxFileSize} 字节`
+    );
+  }
+  // 查询内容哈希缓存：同一账户再次上传相同内容时直接复用 file_url，同时省去 STS 请求
+  const cacheKey =
+    config.uploadCacheTtl > 0
+      ? [
+          await sha256Hex(fileBuffer),
+          (await sha256Hex(qwenAuthToken)).slice(0, 16)
+        ]
+      : null;
+  if (cacheKey) {
+    const cached = await kvStore.getCachedUpload(cacheKey);
+    if (cached) {
+      return {
+        file_url: cached.file_url,
+        file_id: cached.file_id,
+        mime_type: cached.mime_type
+      };
+    }
+  }
+
+  // 根据文件内容确定 MIME 类型
+  const mimeType = detectMimeType(fileBuffer, originalFilename);
   // 简化的文件类型分类，用于 STS 请求
-  const filetypeSimple = mimeType.startsWith('image/') ? 'image' : 'file';
+  const filetypeSimple = mimeType.startsWith('image/')
+    ? 'image'
+    : mimeType.startsWith('audio/')
+    ? 'audio'
+    : 'file';
 
   // 1. 获取 STS 临时凭证
   const stsData = await requestStsToken(
@@ -209,18 +563,91 @@ async function uploadFileToQwenOss(
   });
 
   // 6. 返回上传结果
-  return {
+  const result = {
     file_url: stsData.file_url, // 可访问的文件 URL
-    file_id: stsData.file_id // Qwen 系统中的文件 ID
+    file_id: stsData.file_id, // Qwen 系统中的文件 ID
+    mime_type: mimeType // 检测到的 MIME 类型
   };
+
+  // 7. 写入缓存（有效期不超过签名 URL 的过期时间）
+  const ttl = resolveUploadCacheTtl(result.file_url);
+  if (cacheKey && ttl > 0) {
+    await kvStore.setCachedUpload(
+      cacheKey,
+      { ...result, createdAt: Date.now() },
+      ttl
+    );
+  }
+
+  return result;
+}
+
+/**
+ * 计算上传缓存的有效期
+ * file_url 为带 Expires 参数的签名 URL 时，缓存需在 URL 过期前失效
+ *
+ * @param fileUrl 上传后返回的文件 URL
+ * @returns 缓存有效期（毫秒），不应缓存时返回 0
+ */
+function resolveUploadCacheTtl(fileUrl: string): number {
+  let ttl = config.uploadCacheTtl;
+  try {
+    const expires = Number(new URL(fileUrl).searchParams.get('Expires'));
+    if (expires > 0) {
+      // 预留 1 分钟余量，避免把即将过期的 URL 发送给上游
+      ttl = Math.min(ttl, expires * 1000 - Date.now() - 60 * 1000);
+    }
+  } catch {
+    // 非法 URL 按配置的有效期处理
+  }
+  return Math.max(ttl, 0);
 }
 
 // --- 1. 从环境变量读取配置 ---
 
-// 应用程序配置对象，现在简化为只需要一个可选的环境变量
+/**
+ * 读取正数类型的环境变量
+ * @param name 环境变量名
+ * @param fallback 未设置或非法（非有限数、不大于 0）时使用的默认值
+ * @returns 解析后的数值
+ */
+function readPositiveEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// 应用程序配置对象，所有环境变量均为可选
 const config = {
   // OpenAI API 密钥，用于保护代理端点（可选）
-  openaiApiKey: Deno.env.get('OPENAI_API_KEY') || ''
+  openaiApiKey: Deno.env.get('OPENAI_API_KEY') || '',
+  // JSON 模式下输出校验失败时，是否发送纠正请求重试一次（默认开启）
+  jsonModeRetry: Deno.env.get('JSON_MODE_RETRY') !== 'false',
+  // 思考内容输出格式：'reasoning_content'（默认）或 'think_tags'（旧版内联标签）
+  reasoningFormat: Deno.env.get('REASONING_FORMAT') || 'reasoning_content',
+  // 会话保持模式：开启后按 X-Session-Id 头或 user 字段复用上游聊天（默认关闭）
+  sessionMode: Deno.env.get('SESSION_MODE') === 'true',
+  // 上游聊天清理策略：'keep'（默认保留）、'immediate'（流结束后立即删除）或 'sweep'（后台批量删除）
+  chatCleanup: Deno.env.get('CHAT_CLEANUP') || 'keep',
+  // 单个上传文件（图像、文档）的大小上限，单位 MB（默认 20MB，非法值按默认处理）
+  maxFileSize: readPositiveEnv('MAX_FILE_SIZE_MB', 20) * 1024 * 1024,
+  // 上传文件 URL 缓存的有效期，单位分钟（默认 60，设为 0 关闭缓存）
+  uploadCacheTtl:
+    Number(Deno.env.get('UPLOAD_CACHE_TTL_MINUTES') ?? 60) * 60 * 1000,
+  // 搜索模型是否在回答末尾追加参考资料列表（默认关闭，引用的来源始终以 annotations 返回）
+  searchReferences: Deno.env.get('SEARCH_REFERENCES') === 'true',
+  // 上游请求失败时最多尝试的次数（含首次请求，依次切换令牌，默认 3，非法值按默认处理）
+  upstreamMaxAttempts:
+    Math.max(
+      1,
+      Math.floor(Number(Deno.env.get('UPSTREAM_MAX_ATTEMPTS') || 3))
+    ) || 3,
+  // 令牌健康检查间隔，单位分钟（默认 30，设为 0 关闭后台检查）
+  healthCheckInterval:
+    Number(Deno.env.get('HEALTH_CHECK_INTERVAL_MINUTES') ?? 30) * 60 * 1000,
+  // 令牌到期前多少小时发出提醒（默认 24，设为 0 关闭）
+  tokenExpiryAlertHours: Number(Deno.env.get('TOKEN_EXPIRY_ALERT_HOURS') ?? 24),
+  // 令牌即将到期时通知的 Webhook 地址（可选，未设置时只输出日志）
+  tokenExpiryWebhook: Deno.env.get('TOKEN_EXPIRY_WEBHOOK') || ''
 };
 
 // --- 内存存储管理器 ---
@@ -235,8 +662,25 @@ interface TokenItem {
   createdAt: number; // 创建时间戳
   lastUsed?: number; // 最后使用时间戳
   errorCount: number; // 错误计数
+  cooldownUntil?: number; // 冷却截止时间戳（429 限流或熔断期间不参与轮换）
+  failureStreak?: number; // 连续 5xx 失败次数（熔断器计数）
+  lastError?: string; // 最近一次错误原因
+  lastCheckedAt?: number; // 最近一次健康检查时间戳
+  latency?: number; // 最近一次健康检查的响应耗时（毫秒）
+  expiresAt?: number; // 过期时间戳（解析自 JWT 的 exp 字段）
+  accountId?: string; // 账户标识（解析自 JWT 的 id 或 sub 字段）
+  expiryAlertedAt?: number; // 已发送到期提醒的时间戳
+  ssxmodItna?: string; // 与该 API_KEY 从同一 Cookie 导入的 SSXMOD_ITNA
+  cookies?: Record<string, string>; // 一同导入的其他上游 Cookie（如 ssxmod_itna2）
 }
 
+/**
+ * 令牌状态更新：要更新的字段，或根据最新状态计算更新字段的函数
+ */
+type TokenUpdate =
+  | Partial<TokenItem>
+  | ((current: TokenItem) => Partial<TokenItem>);
+
 /**
  * Cookie 存储结构
  */
@@ -245,6 +689,100 @@ interface CookieStore {
   ssxmodItnaTokens: TokenItem[]; // SSXMOD_ITNA 数组
 }
 
+/**
+ * 视频生成任务数据结构
+ */
+interface VideoJob {
+  id: string; // 任务 ID
+  object: 'video'; // 对象类型
+  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled'; // 任务状态
+  model: string; // 请求的模型名称
+  prompt: string; // 提示词
+  size: string; // Qwen 宽高比
+  created_at: number; // 创建时间（Unix 秒）
+  completed_at: number | null; // 结束时间（Unix 秒）
+  task_id: string | null; // 上游任务 ID
+  url: string | null; // 生成的视频 URL
+  error: string | null; // 失败原因
+}
+
+/**
+ * 上游 Qwen 聊天上下文（会话保持模式下跨请求复用）
+ */
+interface QwenChatContext {
+  chatId: string; // 上游聊天 ID
+  sessionId: string; // 上游会话 ID
+  parentId: string | null; // 上游最后一条回复的消息 ID
+}
+
+/**
+ * 会话保持记录数据结构
+ */
+interface ChatSession {
+  token: string; // 绑定的上游 API_KEY
+  context: QwenChatContext; // 上游聊天上下文
+  history: string[]; // 已发送到上游的消息摘要（含助手回复）
+  updatedAt: number; // 最后更新时间戳
+  turnId?: string; // 正在进行的一轮对话标识（同一会话同时只允许一轮）
+  lockedUntil?: number; // 占用截止时间戳（异常退出未释放时到期自动失效）
+}
+
+/**
+ * 待清理的上游聊天
+ */
+interface PendingChatCleanup {
+  chatId: string; // 上游聊天 ID
+  token: string; // 创建该聊天的上游 API_KEY
+  createdAt: number; // 加入队列的时间戳
+  attempts: number; // 已尝试清理的次数
+}
+
+/**
+ * 上游聊天清理统计
+ */
+interface ChatCleanupStats {
+  deleted: number; // 成功删除的聊天数
+  failed: number; // 删除失败的次数
+  lastSweepAt: number | null; // 最近一次后台清理时间戳
+  tokens: Record<
+    string,
+    { deleted: number; failed: number; lastError: string | null }
+  >; // 按令牌统计
+}
+
+/**
+ * 上传文件缓存项（按文件内容哈希和账户缓存）
+ */
+interface UploadCacheEntry {
+  file_url: string; // 可访问的文件 URL
+  file_id: string; // Qwen 系统中的文件 ID
+  mime_type: string; // 检测到的 MIME 类型
+  createdAt: number; // 缓存时间戳
+}
+
+/**
+ * 令牌健康检查报告
+ */
+interface TokenHealthReport {
+  checkedAt: number; // 检查开始时间戳
+  durationMs: number; // 检查耗时（毫秒）
+  total: number; // 检查的 API_KEY 数量
+  healthy: number; // 探测成功的数量
+  revived: number; // 由失效恢复为有效的数量
+  invalidated: number; // 本次标记为失效的数量
+  ssxmod?: TokenHealthCounts; // 共享 SSXMOD_ITNA 的检查结果
+}
+
+/**
+ * 单类令牌的健康检查计数
+ */
+interface TokenHealthCounts {
+  total: number; // 检查的数量
+  healthy: number; // 探测成功的数量
+  revived: number; // 由失效恢复为有效的数量
+  invalidated: number; // 本次标记为失效的数量
+}
+
 /**
  * KV存储管理类 - 使用Deno.Kv进行持久化存储
  */
@@ -252,6 +790,12 @@ class KvStore {
   private kv: Deno.Kv | null = null;
   private readonly API_KEYS_KEY = ['tokens', 'apiKeys'];
   private readonly SSXMOD_KEYS_KEY = ['tokens', 'ssxmodTokens'];
+  private readonly VIDEO_JOBS_PREFIX = ['videos'];
+  private readonly SESSIONS_PREFIX = ['sessions'];
+  private readonly PENDING_CLEANUP_PREFIX = ['chatCleanup', 'pending'];
+  private readonly CLEANUP_STATS_KEY = ['chatCleanup', 'stats'];
+  private readonly UPLOADS_PREFIX = ['uploads'];
+  private readonly HEALTH_REPORT_KEY = ['health', 'lastReport'];
 
   /**
    * 初始化KV存储连接
@@ -299,160 +843,483 @@ class KvStore {
    * 添加API密钥
    */
   async addApiKey(token: TokenItem): Promise<boolean> {
-    if (!this.kv) throw new Error('KV存储未初始化');
-    
-    const apiKeys = await this.getApiKeys();
-    
-    // 检查是否已存在
-    if (apiKeys.some(item => item.value === token.value)) {
-      return false; // 已存在
-    }
-
-    apiKeys.push(token);
-    await this.kv.set(this.API_KEYS_KEY, apiKeys);
-    return true;
+    let added = false;
+    await this.atomicUpdate<TokenItem[]>(this.API_KEYS_KEY, [], apiKeys => {
+      // 检查是否已存在
+      added = !apiKeys.some(item => item.value === token.value);
+      return added ? [...apiKeys, token] : apiKeys;
+    });
+    return added;
   }
 
   /**
    * 添加SSXMOD令牌
    */
   async addSsxmodToken(token: TokenItem): Promise<boolean> {
-    if (!this.kv) throw new Error('KV存储未初始化');
-    
-    const ssxmodTokens = await this.getSsxmodTokens();
-    
-    // 检查是否已存在
-    if (ssxmodTokens.some(item => item.value === token.value)) {
-      return false; // 已存在
-    }
+    let added = false;
+    await this.atomicUpdate<TokenItem[]>(this.SSXMOD_KEYS_KEY, [], tokens => {
+      // 检查是否已存在
+      added = !tokens.some(item => item.value === token.value);
+      return added ? [...tokens, token] : tokens;
+    });
+    return added;
+  }
 
-    ssxmodTokens.push(token);
-    await this.kv.set(this.SSXMOD_KEYS_KEY, ssxmodTokens);
-    return true;
+  /**
+   * 原子地修改API密钥列表（选择令牌的同时更新其状态，避免并发请求选中同一个探测令牌）
+   * @param update 根据当前列表计算新列表的函数（版本冲突时会以最新列表重新调用）
+   */
+  async modifyApiKeys(
+    update: (apiKeys: TokenItem[]) => TokenItem[]
+  ): Promise<void> {
+    await this.atomicUpdate<TokenItem[]>(this.API_KEYS_KEY, [], update);
   }
 
   /**
    * 更新API密钥状态
+   * @param updates 要更新的字段，或根据最新状态计算更新字段的函数
    */
-  async updateApiKey(tokenValue: string, updates: Partial<TokenItem>): Promise<boolean> {
-    if (!this.kv) throw new Error('KV存储未初始化');
-    
-    const apiKeys = await this.getApiKeys();
-    const tokenIndex = apiKeys.findIndex(item => item.value === tokenValue);
-    
-    if (tokenIndex !== -1) {
-      apiKeys[tokenIndex] = { ...apiKeys[tokenIndex], ...updates };
-      await this.kv.set(this.API_KEYS_KEY, apiKeys);
-      return true;
-    }
-    return false;
+  async updateApiKey(
+    tokenValue: string,
+    updates: TokenUpdate
+  ): Promise<boolean> {
+    return await this.updateTokenItem(this.API_KEYS_KEY, tokenValue, updates);
   }
 
   /**
    * 更新SSXMOD令牌状态
+   * @param updates 要更新的字段，或根据最新状态计算更新字段的函数
    */
-  async updateSsxmodToken(tokenValue: string, updates: Partial<TokenItem>): Promise<boolean> {
-    if (!this.kv) throw new Error('KV存储未初始化');
-    
-    const ssxmodTokens = await this.getSsxmodTokens();
-    const tokenIndex = ssxmodTokens.findIndex(item => item.value === tokenValue);
-    
-    if (tokenIndex !== -1) {
-      ssxmodTokens[tokenIndex] = { ...ssxmodTokens[tokenIndex], ...updates };
-      await this.kv.set(this.SSXMOD_KEYS_KEY, ssxmodTokens);
-      return true;
-    }
-    return false;
+  async updateSsxmodToken(
+    tokenValue: string,
+    updates: TokenUpdate
+  ): Promise<boolean> {
+    return await this.updateTokenItem(
+      this.SSXMOD_KEYS_KEY,
+      tokenValue,
+      updates
+    );
+  }
+
+  /**
+   * 原子地更新令牌列表中的一项（并发的状态更新不会互相覆盖）
+   */
+  private async updateTokenItem(
+    key: Deno.KvKey,
+    tokenValue: string,
+    updates: TokenUpdate
+  ): Promise<boolean> {
+    let found = false;
+    await this.atomicUpdate<TokenItem[]>(key, [], tokens => {
+      found = false;
+      return tokens.map(item => {
+        if (item.value !== tokenValue) return item;
+        found = true;
+        return {
+          ...item,
+          ...(typeof updates === 'function' ? updates(item) : updates)
+        };
+      });
+    });
+    return found;
   }
 
   /**
    * 删除无效的令牌
    */
   async deleteInvalidTokens(): Promise<{ deletedApiKeys: number; deletedSsxmods: number }> {
-    if (!this.kv) throw new Error('KV存储未初始化');
-    
-    const [apiKeys, ssxmodTokens] = await Promise.all([
-      this.getApiKeys(),
-      this.getSsxmodTokens()
-    ]);
-
-    const validApiKeys = apiKeys.filter(item => item.isValid);
-    const validSsxmodTokens = ssxmodTokens.filter(item => item.isValid);
-
-    const deletedApiKeys = apiKeys.length - validApiKeys.length;
-    const deletedSsxmods = ssxmodTokens.length - validSsxmodTokens.length;
+    let deletedApiKeys = 0;
+    let deletedSsxmods = 0;
 
     await Promise.all([
-      this.kv.set(this.API_KEYS_KEY, validApiKeys),
-      this.kv.set(this.SSXMOD_KEYS_KEY, validSsxmodTokens)
+      this.atomicUpdate<TokenItem[]>(this.API_KEYS_KEY, [], apiKeys => {
+        const validApiKeys = apiKeys.filter(item => item.isValid);
+        deletedApiKeys = apiKeys.length - validApiKeys.length;
+        return validApiKeys;
+      }),
+      this.atomicUpdate<TokenItem[]>(this.SSXMOD_KEYS_KEY, [], ssxmodTokens => {
+        const validSsxmodTokens = ssxmodTokens.filter(item => item.isValid);
+        deletedSsxmods = ssxmodTokens.length - validSsxmodTokens.length;
+        return validSsxmodTokens;
+      })
     ]);
 
     return { deletedApiKeys, deletedSsxmods };
   }
 
   /**
-   * 关闭KV连接
+   * 获取视频生成任务
    */
-  close(): void {
-    if (this.kv) {
-      this.kv.close();
-      this.kv = null;
-    }
+  async getVideoJob(id: string): Promise<VideoJob | null> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const result = await this.kv.get<VideoJob>([...this.VIDEO_JOBS_PREFIX, id]);
+    return result.value;
   }
-}
-
-// 创建KV存储实例
-const kvStore = new KvStore();
-
-/**
- * 生成唯一标识符
- * @returns 唯一ID字符串
- */
-function generateId(): string {
-  return crypto.randomUUID();
-}
 
-/**
- * 掩码显示令牌值（保留前后4位字符）
- * @param value 完整的令牌值
- * @returns 掩码后的显示字符串
- */
-function maskTokenValue(value: string): string {
-  if (value.length <= 8) {
-    return value; // 太短的值不掩码
+  /**
+   * 保存视频生成任务（过期后自动删除）
+   */
+  async setVideoJob(job: VideoJob): Promise<void> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    await this.kv.set([...this.VIDEO_JOBS_PREFIX, job.id], job, {
+      expireIn: VIDEO_CONFIG.jobTtl
+    });
   }
-  const start = value.substring(0, 4);
-  const end = value.substring(value.length - 4);
-  const maskLength = Math.min(value.length - 8, 20); // 限制掩码长度
-  const mask = '*'.repeat(maskLength);
-  return `${start}${mask}${end}`;
-}
 
-/**
- * 添加 API_KEY 到存储中（自动去重）
- * @param value API_KEY 值
- */
-async function addApiKey(value: string): Promise<void> {
-  // 添加新的 API_KEY
-  const newToken: TokenItem = {
-    id: generateId(),
-    value: value,
-    isValid: true, // 新导入默认为 true
-    createdAt: Date.now(),
-    lastUsed: undefined,
-    errorCount: 0
-  };
+  /**
+   * 原子地更新视频生成任务（版本号检查失败时重新读取并重试，不覆盖并发写入的取消状态）
+   * @param id 任务 ID
+   * @param update 根据最新任务计算新任务的函数，返回 null 时不写入
+   * @returns 写入的任务，任务不存在或未写入时返回 null
+   */
+  async updateVideoJob(
+    id: string,
+    update: (job: VideoJob) => VideoJob | null
+  ): Promise<VideoJob | null> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const key = [...this.VIDEO_JOBS_PREFIX, id];
+    while (true) {
+      const entry = await this.kv.get<VideoJob>(key);
+      if (!entry.value) return null;
+      const updated = update(entry.value);
+      if (!updated) return null;
+      const result = await this.kv
+        .atomic()
+        .check(entry)
+        .set(key, updated, { expireIn: VIDEO_CONFIG.jobTtl })
+        .commit();
+      if (result.ok) return updated;
+    }
+  }
 
-  const added = await kvStore.addApiKey(newToken);
-  if (added) {
-    console.log(`已添加新的 API_KEY: ${maskTokenValue(value)}`);
-  } else {
-    console.log('API_KEY 已存在，跳过添加');
+  /**
+   * 获取会话保持记录及其版本号
+   */
+  async getChatSession(
+    key: string
+  ): Promise<{ session: ChatSession | null; versionstamp: string | null }> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const result = await this.kv.get<ChatSession>([
+      ...this.SESSIONS_PREFIX,
+      key
+    ]);
+    return { session: result.value, versionstamp: result.versionstamp };
   }
-}
 
-/**
- * 添加 SSXMOD_ITNA 到存储中（自动去重）
+  /**
+   * 原子地写入会话保持记录以占用会话（过期后自动删除）
+   * @param versionstamp 读取记录时的版本号，记录已被其他请求修改时写入失败
+   * @returns 是否占用成功
+   */
+  async claimChatSession(
+    key: string,
+    versionstamp: string | null,
+    session: ChatSession
+  ): Promise<boolean> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const sessionKey = [...this.SESSIONS_PREFIX, key];
+    const result = await this.kv
+      .atomic()
+      .check({ key: sessionKey, versionstamp })
+      .set(sessionKey, session, { expireIn: SESSION_CONFIG.ttl })
+      .commit();
+    return result.ok;
+  }
+
+  /**
+   * 结束会话中的一轮对话：仅当记录仍由该轮占用时写入新记录
+   * @param turnId 占用会话时的对话标识
+   * @param update 根据当前记录计算新记录的函数，返回 null 时删除记录
+   * @returns 是否写入（会话已被其他请求接管时返回 false）
+   */
+  async finishChatSessionTurn(
+    key: string,
+    turnId: string,
+    update: (current: ChatSession) => ChatSession | null
+  ): Promise<boolean> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const sessionKey = [...this.SESSIONS_PREFIX, key];
+    while (true) {
+      const entry = await this.kv.get<ChatSession>(sessionKey);
+      if (!entry.value || entry.value.turnId !== turnId) return false;
+      const next = update(entry.value);
+      const operation = this.kv.atomic().check(entry);
+      if (next) {
+        operation.set(sessionKey, next, { expireIn: SESSION_CONFIG.ttl });
+      } else {
+        operation.delete(sessionKey);
+      }
+      if ((await operation.commit()).ok) return true;
+    }
+  }
+
+  /**
+   * 加入或更新待清理的上游聊天
+   */
+  async addPendingChatCleanup(entry: PendingChatCleanup): Promise<void> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    await this.kv.set([...this.PENDING_CLEANUP_PREFIX, entry.chatId], entry);
+  }
+
+  /**
+   * 获取待清理的上游聊天（按加入顺序）
+   */
+  async listPendingChatCleanups(limit: number): Promise<PendingChatCleanup[]> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const entries: PendingChatCleanup[] = [];
+    for await (const entry of this.kv.list<PendingChatCleanup>({
+      prefix: this.PENDING_CLEANUP_PREFIX
+    })) {
+      entries.push(entry.value);
+    }
+    entries.sort((a, b) => a.createdAt - b.createdAt);
+    return entries.slice(0, limit);
+  }
+
+  /**
+   * 统计待清理的上游聊天数量
+   */
+  async countPendingChatCleanups(): Promise<number> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    let count = 0;
+    for await (const _ of this.kv.list({
+      prefix: this.PENDING_CLEANUP_PREFIX
+    })) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * 从待清理队列中移除上游聊天
+   */
+  async deletePendingChatCleanup(chatId: string): Promise<void> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    await this.kv.delete([...this.PENDING_CLEANUP_PREFIX, chatId]);
+  }
+
+  /**
+   * 获取上游聊天清理统计
+   */
+  async getChatCleanupStats(): Promise<ChatCleanupStats> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const result = await this.kv.get<ChatCleanupStats>(this.CLEANUP_STATS_KEY);
+    return (
+      result.value || { deleted: 0, failed: 0, lastSweepAt: null, tokens: {} }
+    );
+  }
+
+  /**
+   * 记录一次上游聊天清理结果
+   * @param token 上游 API_KEY
+   * @param error 失败原因，成功时为 null
+   */
+  async recordChatCleanup(token: string, error: string | null): Promise<void> {
+    await this.atomicUpdate<ChatCleanupStats>(
+      this.CLEANUP_STATS_KEY,
+      { deleted: 0, failed: 0, lastSweepAt: null, tokens: {} },
+      stats => {
+        const item = stats.tokens[token] || {
+          deleted: 0,
+          failed: 0,
+          lastError: null
+        };
+        if (error === null) {
+          stats.deleted++;
+          item.deleted++;
+        } else {
+          stats.failed++;
+          item.failed++;
+          item.lastError = error;
+        }
+        stats.tokens[token] = item;
+        return stats;
+      }
+    );
+  }
+
+  /**
+   * 记录后台清理的运行时间
+   */
+  async markChatCleanupSweep(): Promise<void> {
+    await this.atomicUpdate<ChatCleanupStats>(
+      this.CLEANUP_STATS_KEY,
+      { deleted: 0, failed: 0, lastSweepAt: null, tokens: {} },
+      stats => ({ ...stats, lastSweepAt: Date.now() })
+    );
+  }
+
+  /**
+   * 原子地读取、修改并写回一个键（版本号检查失败时重新读取并重试）
+   * @param key 存储键
+   * @param fallback 键不存在时的初始值
+   * @param update 根据当前值计算新值的函数
+   * @returns 写入的新值
+   */
+  private async atomicUpdate<T>(
+    key: Deno.KvKey,
+    fallback: T,
+    update: (value: T) => T
+  ): Promise<T> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    while (true) {
+      const entry = await this.kv.get<T>(key);
+      const value = update(entry.value ?? structuredClone(fallback));
+      const result = await this.kv
+        .atomic()
+        .check(entry)
+        .set(key, value)
+        .commit();
+      if (result.ok) return value;
+    }
+  }
+
+  /**
+   * 获取上传文件缓存
+   * @param key [文件内容哈希, 账户令牌哈希]
+   */
+  async getCachedUpload(key: string[]): Promise<UploadCacheEntry | null> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const result = await this.kv.get<UploadCacheEntry>([
+      ...this.UPLOADS_PREFIX,
+      ...key
+    ]);
+    return result.value;
+  }
+
+  /**
+   * 保存上传文件缓存（过期后自动删除）
+   * @param key [文件内容哈希, 账户令牌哈希]
+   */
+  async setCachedUpload(
+    key: string[],
+    entry: UploadCacheEntry,
+    ttl: number
+  ): Promise<void> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    await this.kv.set([...this.UPLOADS_PREFIX, ...key], entry, {
+      expireIn: ttl
+    });
+  }
+
+  /**
+   * 获取最近一次令牌健康检查报告
+   */
+  async getHealthReport(): Promise<TokenHealthReport | null> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    const result = await this.kv.get<TokenHealthReport>(this.HEALTH_REPORT_KEY);
+    return result.value;
+  }
+
+  /**
+   * 保存令牌健康检查报告
+   * @param report 检查报告
+   */
+  async setHealthReport(report: TokenHealthReport): Promise<void> {
+    if (!this.kv) throw new Error('KV存储未初始化');
+    await this.kv.set(this.HEALTH_REPORT_KEY, report);
+  }
+
+  /**
+   * 关闭KV连接
+   */
+  close(): void {
+    if (this.kv) {
+      this.kv.close();
+      this.kv = null;
+    }
+  }
+}
+
+// 创建KV存储实例
+const kvStore = new KvStore();
+
+/**
+ * 计算 SHA-256 摘要
+ * @param data 字节数组或字符串
+ * @returns 十六进制摘要
+ */
+async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes =
+    typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const hash = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(hash))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 生成唯一标识符
+ * @returns 唯一ID字符串
+ */
+function generateId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 掩码显示令牌值（保留前后4位字符）
+ * @param value 完整的令牌值
+ * @returns 掩码后的显示字符串
+ */
+function maskTokenValue(value: string): string {
+  if (value.length <= 8) {
+    return value; // 太短的值不掩码
+  }
+  const start = value.substring(0, 4);
+  const end = value.substring(value.length - 4);
+  const maskLength = Math.min(value.length - 8, 20); // 限制掩码长度
+  const mask = '*'.repeat(maskLength);
+  return `${start}${mask}${end}`;
+}
+
+/**
+ * 添加 API_KEY 到存储中（自动去重）
+ *
+ * 同一 Cookie 中的 ssxmod_itna 等值与 API_KEY 存为一条凭据，
+ * 轮换和失效都以整条凭据为单位；重复导入时刷新已有凭据绑定的 Cookie
+ *
+ * @param value API_KEY 值
+ * @param pairing 同一 Cookie 中解析出的 ssxmod_itna 和其他 Cookie（可选）
+ */
+async function addApiKey(
+  value: string,
+  pairing: { ssxmodItna?: string; cookies?: Record<string, string> } = {}
+): Promise<void> {
+  // 添加新的 API_KEY（JWT 格式时记录过期时间和账户标识）
+  const newToken: TokenItem = {
+    id: generateId(),
+    value: value,
+    isValid: true, // 新导入默认为 true
+    createdAt: Date.now(),
+    lastUsed: undefined,
+    errorCount: 0,
+    ...parseTokenClaims(value),
+    ...pairing
+  };
+  if (newToken.expiresAt && newToken.expiresAt <= Date.now()) {
+    console.warn(
+      `导入的 API_KEY 已过期，不会参与轮换: ${maskTokenValue(value)}`
+    );
+  }
+
+  const added = await kvStore.addApiKey(newToken);
+  if (added) {
+    console.log(`已添加新的 API_KEY: ${maskTokenValue(value)}`);
+  } else if (pairing.ssxmodItna) {
+    await kvStore.updateApiKey(value, {
+      ssxmodItna: pairing.ssxmodItna,
+      cookies: pairing.cookies
+    });
+    console.log(
+      `API_KEY 已存在，已更新绑定的 Cookie: ${maskTokenValue(value)}`
+    );
+  } else {
+    console.log('API_KEY 已存在，跳过添加');
+  }
+}
+
+/**
+ * 添加 SSXMOD_ITNA 到存储中（自动去重）
  * @param value SSXMOD_ITNA 值
  */
 async function addSsxmodItna(value: string): Promise<void> {
@@ -474,64 +1341,154 @@ async function addSsxmodItna(value: string): Promise<void> {
   }
 }
 
+/**
+ * 判断令牌是否处于熔断后的探测阶段（下一次请求的结果决定是否恢复）
+ * @param token 令牌存储项
+ */
+function isProbingToken(token: TokenItem): boolean {
+  return (token.failureStreak || 0) >= TOKEN_COOLDOWN_CONFIG.failureThreshold;
+}
+
 /**
  * 轮换获取可用的 API_KEY（优先使用环境变量，然后是 KvStore）
+ *
+ * 选择令牌和更新使用时间在同一个原子操作中完成，
+ * 熔断后的令牌只会被一个并发请求选中作为探测请求
+ *
+ * @param exclude 需要跳过的令牌（故障转移时已尝试过的令牌）
+ * @param allowProbe 是否可以选中探测阶段的令牌（不会上报结果的请求应传 false）
  * @returns 可用的 API_KEY 值或 null
  */
-async function getValidApiKey(): Promise<string | null> {
-  const validTokens = (await kvStore.getApiKeys()).filter(token => token.isValid);
-  console.log(`当前 API_KEY 存储状态: 共${validTokens.length}个有效令牌`);
-
-  if (validTokens.length === 0) {
-    return null;
-  }
-
-  // 简单轮换：按最少使用优先
-  validTokens.sort((a, b) => (a.lastUsed || 0) - (b.lastUsed || 0));
-  const selectedToken = validTokens[0];
-
-  // 更新使用时间
-  await kvStore.updateApiKey(selectedToken.value, { lastUsed: Date.now() });
+async function getValidApiKey(
+  exclude: string[] = [],
+  allowProbe = true
+): Promise<string | null> {
+  let selected: string | null = null;
+  let available = 0;
+
+  await kvStore.modifyApiKeys(apiKeys => {
+    const validTokens = apiKeys.filter(
+      token =>
+        isTokenAvailable(token) &&
+        !exclude.includes(token.value) &&
+        (allowProbe || !isProbingToken(token))
+    );
+    available = validTokens.length;
+    selected = null;
+    if (validTokens.length === 0) return apiKeys;
+
+    // 简单轮换：按最少使用优先
+    validTokens.sort((a, b) => (a.lastUsed || 0) - (b.lastUsed || 0));
+    const selectedToken = validTokens[0];
+    selected = selectedToken.value;
+
+    // 更新使用时间；熔断后的令牌本次作为探测请求，结果返回前不再放行其他请求
+    const now = Date.now();
+    const updated: TokenItem = {
+      ...selectedToken,
+      lastUsed: now,
+      ...(isProbingToken(selectedToken) && {
+        cooldownUntil: now + TOKEN_COOLDOWN_CONFIG.circuitOpenDuration
+      })
+    };
+    return apiKeys.map(token => (token === selectedToken ? updated : token));
+  });
 
-  return selectedToken.value;
+  console.log(`当前 API_KEY 存储状态: 共${available}个有效令牌`);
+  return selected;
 }
 
 /**
- * 获取可用的 SSXMOD_ITNA 值
+ * 获取共享的 SSXMOD_ITNA 值（供未绑定 SSXMOD_ITNA 的 API_KEY 使用）
+ * @param exclude 优先跳过的值（故障转移时已尝试过的值，全部尝试过时仍返回第一个）
  * @returns 可用的 SSXMOD_ITNA 值或 null
  */
-async function getValidSsxmodItna(): Promise<string | null> {
+async function getValidSsxmodItna(
+  exclude: string[] = []
+): Promise<string | null> {
   const validTokens = (await kvStore.getSsxmodTokens()).filter(
-    token => token.isValid
+    isTokenAvailable
   );
 
   if (validTokens.length === 0) {
     return null;
   }
 
-  // 简单选择第一个可用的
-  const selectedToken = validTokens[0];
+  // 简单选择第一个可用的（优先选择未尝试过的）
+  const selectedToken =
+    validTokens.find(token => !exclude.includes(token.value)) ||
+    validTokens[0];
   await kvStore.updateSsxmodToken(selectedToken.value, { lastUsed: Date.now() });
 
   return selectedToken.value;
 }
 
 /**
- * 标记令牌为无效（4xx错误时调用）
+ * 构建与 API_KEY 一同导入的 Cookie 头
+ * @param credential API_KEY 存储项
+ * @returns Cookie 头（未绑定 SSXMOD_ITNA 时为 null）
+ */
+function buildPairedCookie(credential: TokenItem): string | null {
+  if (!credential.ssxmodItna) return null;
+  const cookies = {
+    ssxmod_itna: credential.ssxmodItna,
+    ...credential.cookies
+  };
+  return Object.entries(cookies)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('; ');
+}
+
+/**
+ * 构建上游请求使用的 Cookie 头
+ * 优先使用与 API_KEY 一同导入的 Cookie，未绑定时（如旧版导入）回退到共享的 SSXMOD_ITNA
+ *
+ * @param token 本次使用的 API_KEY
+ * @param excludeSsxmod 优先跳过的共享 SSXMOD_ITNA（故障转移时已尝试过的值）
+ * @returns Cookie 头（无可用值时为 null）和所用的共享 SSXMOD_ITNA（使用绑定值时为 null）
+ */
+async function resolveUpstreamCookie(
+  token: string,
+  excludeSsxmod: string[] = []
+): Promise<{ cookie: string | null; sharedSsxmod: string | null }> {
+  const credential = (await kvStore.getApiKeys()).find(
+    item => item.value === token
+  );
+  const pairedCookie = credential ? buildPairedCookie(credential) : null;
+  if (pairedCookie) {
+    return { cookie: pairedCookie, sharedSsxmod: null };
+  }
+
+  const sharedSsxmod = await getValidSsxmodItna(excludeSsxmod);
+  return {
+    cookie: sharedSsxmod ? `ssxmod_itna=${sharedSsxmod}` : null,
+    sharedSsxmod
+  };
+}
+
+/**
+ * 标记令牌为无效（401/403 认证失败时调用）
  * @param type 令牌类型：'apiKey' 或 'ssxmod'
  * @param value 令牌值
+ * @param reason 失效原因（可选，记录到 lastError）
  */
-async function markAsInvalid(type: string, value: string): Promise<void> {
+async function markAsInvalid(
+  type: string,
+  value: string,
+  reason?: string
+): Promise<void> {
   if (type === 'apiKey') {
-    await kvStore.updateApiKey(value, { 
-      isValid: false, 
-      errorCount: await getTokenErrorCount(value, 'apiKey') + 1 
-    });
+    await kvStore.updateApiKey(value, current => ({
+      isValid: false,
+      errorCount: current.errorCount + 1,
+      lastError: reason
+    }));
   } else if (type === 'ssxmod') {
-    await kvStore.updateSsxmodToken(value, { 
-      isValid: false, 
-      errorCount: await getTokenErrorCount(value, 'ssxmod') + 1 
-    });
+    await kvStore.updateSsxmodToken(value, current => ({
+      isValid: false,
+      errorCount: current.errorCount + 1,
+      lastError: reason
+    }));
   } else {
     console.error(`无效的令牌类型: ${type}`);
     return;
@@ -540,20 +1497,153 @@ async function markAsInvalid(type: string, value: string): Promise<void> {
   console.log(`已标记 ${type} 为无效: ${maskTokenValue(value)}`);
 }
 
+// --- 上游错误分类与令牌冷却 ---
+
 /**
- * 获取令牌的错误计数
+ * 令牌冷却与熔断配置
  */
-async function getTokenErrorCount(value: string, type: string): Promise<number> {
-  if (type === 'apiKey') {
-    const tokens = await kvStore.getApiKeys();
-    const token = tokens.find(item => item.value === value);
-    return token ? token.errorCount : 0;
-  } else if (type === 'ssxmod') {
-    const tokens = await kvStore.getSsxmodTokens();
-    const token = tokens.find(item => item.value === value);
-    return token ? token.errorCount : 0;
+const TOKEN_COOLDOWN_CONFIG = {
+  rateLimitCooldown: 60 * 1000, // 429 未携带 Retry-After 时的默认冷却时长
+  maxCooldown: 30 * 60 * 1000, // 冷却时长上限
+  failureThreshold: 3, // 连续 5xx 达到该次数后熔断
+  circuitOpenDuration: 2 * 60 * 1000 // 熔断时长，到期后放行一次探测请求
+};
+
+/**
+ * 上游错误类别
+ * - auth：认证失败（401/403），令牌失效
+ * - rate_limit：限流（429），令牌进入冷却
+ * - server：上游服务错误（5xx），计入熔断器
+ * - request：请求本身有误（400 等其他 4xx），与令牌无关
+ */
+type UpstreamErrorKind = 'auth' | 'rate_limit' | 'server' | 'request';
+
+/**
+ * 按状态码对上游错误分类
+ * @param status 上游响应状态码
+ * @returns 错误类别
+ */
+function classifyUpstreamError(status: number): UpstreamErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'request';
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期）
+ * @param value 响应头的值
+ * @returns 需要等待的毫秒数，无法解析时返回 null
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * 判断令牌当前是否可参与轮换（有效且不在冷却期）
+ * 熔断冷却到期后令牌重新可用，下一次请求即为探测请求
+ *
+ * @param token 令牌存储项
+ * @returns 是否可用
+ */
+function isTokenAvailable(token: TokenItem): boolean {
+  return (
+    token.isValid &&
+    !isTokenExpired(token) &&
+    !(token.cooldownUntil && token.cooldownUntil > Date.now())
+  );
+}
+
+/**
+ * 按错误类别更新上游令牌状态
+ *
+ * @param token 本次使用的 API_KEY
+ * @param ssxmodItna 本次使用的共享 SSXMOD_ITNA（使用绑定值或未使用时为 null）
+ * @param status 上游响应状态码
+ * @param retryAfter 上游 Retry-After 响应头
+ * @returns 错误类别
+ */
+async function reportUpstreamFailure(
+  token: string,
+  ssxmodItna: string | null,
+  status: number,
+  retryAfter: string | null
+): Promise<UpstreamErrorKind> {
+  const kind = classifyUpstreamError(status);
+  const reason = `HTTP ${status}`;
+
+  if (kind === 'auth') {
+    await markAsInvalid('apiKey', token, `${reason} 认证失败`);
+    // 403 也可能来自风控拦截，同时标记共享的 ssxmod_itna（绑定的值随 API_KEY 一同失效）
+    if (status === 403 && ssxmodItna) {
+      await markAsInvalid('ssxmod', ssxmodItna, `${reason} 认证失败`);
+    }
+  } else if (kind === 'rate_limit') {
+    const wait = Math.min(
+      parseRetryAfter(retryAfter) ?? TOKEN_COOLDOWN_CONFIG.rateLimitCooldown,
+      TOKEN_COOLDOWN_CONFIG.maxCooldown
+    );
+    await kvStore.updateApiKey(token, current => ({
+      cooldownUntil: Date.now() + wait,
+      errorCount: current.errorCount + 1,
+      lastError: `${reason} 限流`
+    }));
+    console.warn(
+      `API_KEY 被限流，冷却 ${Math.ceil(wait / 1000)} 秒: ${maskTokenValue(
+        token
+      )}`
+    );
+  } else if (kind === 'server') {
+    let failureStreak = 0;
+    let open = false;
+    await kvStore.updateApiKey(token, current => {
+      failureStreak = (current.failureStreak || 0) + 1;
+      // 连续失败达到阈值（或熔断后的探测请求失败）时熔断
+      open = failureStreak >= TOKEN_COOLDOWN_CONFIG.failureThreshold;
+      return {
+        failureStreak,
+        cooldownUntil: open
+          ? Date.now() + TOKEN_COOLDOWN_CONFIG.circuitOpenDuration
+          : current.cooldownUntil,
+        errorCount: current.errorCount + 1,
+        lastError: `${reason} 上游服务错误`
+      };
+    });
+    if (open) {
+      console.warn(
+        `API_KEY 连续 ${failureStreak} 次 5xx 错误，已熔断: ${maskTokenValue(
+          token
+        )}`
+      );
+    }
+  } else {
+    console.warn(`上游拒绝了请求（${reason}），不影响令牌状态`);
+  }
+  return kind;
+}
+
+/**
+ * 上游请求成功时重置令牌的熔断计数（熔断后的探测请求成功即恢复）
+ * @param token 本次使用的 API_KEY
+ */
+async function reportUpstreamSuccess(token: string): Promise<void> {
+  const current = (await kvStore.getApiKeys()).find(
+    item => item.value === token
+  );
+  if (!current?.failureStreak) return;
+
+  let recovered = false;
+  await kvStore.updateApiKey(token, latest => {
+    recovered = Boolean(latest.failureStreak);
+    return recovered ? { failureStreak: 0, cooldownUntil: undefined } : {};
+  });
+  if (recovered) {
+    console.log(`API_KEY 已恢复: ${maskTokenValue(token)}`);
   }
-  return 0;
 }
 
 /**
@@ -579,6 +1669,14 @@ interface DisplayTokenItem {
   createdAt: string;
   lastUsed: string;
   errorCount: number;
+  cooldownUntil: string; // 冷却截止时间（不在冷却期时为空字符串）
+  lastError: string; // 最近一次错误原因
+  lastCheckedAt: string; // 最近一次健康检查时间
+  latency: number | null; // 最近一次健康检查的响应耗时（毫秒）
+  accountId: string; // 账户标识（未知时为空字符串）
+  expired: boolean; // 是否已过期
+  expiresIn: string; // 剩余有效期（未知时为空字符串）
+  pairedSsxmod: string; // 绑定的 SSXMOD_ITNA 掩码值（未绑定时为空字符串）
 }
 
 /**
@@ -604,7 +1702,22 @@ async function getDisplayList(): Promise<DisplayList> {
     lastUsed: token.lastUsed
       ? new Date(token.lastUsed).toLocaleString('zh-CN')
       : '未使用',
-    errorCount: token.errorCount || 0
+    errorCount: token.errorCount || 0,
+    cooldownUntil:
+      token.cooldownUntil && token.cooldownUntil > Date.now()
+        ? new Date(token.cooldownUntil).toLocaleString('zh-CN')
+        : '',
+    lastError: token.lastError || '',
+    lastCheckedAt: token.lastCheckedAt
+      ? new Date(token.lastCheckedAt).toLocaleString('zh-CN')
+      : '未检查',
+    latency: token.latency ?? null,
+    accountId: token.accountId || '',
+    expired: isTokenExpired(token),
+    expiresIn: token.expiresAt
+      ? formatRemainingTime(token.expiresAt - Date.now())
+      : '',
+    pairedSsxmod: token.ssxmodItna ? maskTokenValue(token.ssxmodItna) : ''
   }));
 
   const ssxmodList = cookieStoreData.ssxmodItnaTokens.map(token => ({
@@ -615,7 +1728,22 @@ async function getDisplayList(): Promise<DisplayList> {
     lastUsed: token.lastUsed
       ? new Date(token.lastUsed).toLocaleString('zh-CN')
       : '未使用',
-    errorCount: token.errorCount || 0
+    errorCount: token.errorCount || 0,
+    cooldownUntil:
+      token.cooldownUntil && token.cooldownUntil > Date.now()
+        ? new Date(token.cooldownUntil).toLocaleString('zh-CN')
+        : '',
+    lastError: token.lastError || '',
+    lastCheckedAt: token.lastCheckedAt
+      ? new Date(token.lastCheckedAt).toLocaleString('zh-CN')
+      : '未检查',
+    latency: token.latency ?? null,
+    accountId: token.accountId || '',
+    expired: isTokenExpired(token),
+    expiresIn: token.expiresAt
+      ? formatRemainingTime(token.expiresAt - Date.now())
+      : '',
+    pairedSsxmod: token.ssxmodItna ? maskTokenValue(token.ssxmodItna) : ''
   }));
 
   return {
@@ -624,34 +1752,177 @@ async function getDisplayList(): Promise<DisplayList> {
   };
 }
 
-// --- 初始化内存存储 ---
+// --- 令牌有效期 ---
 
-// 注意：环境变量中的 OPENAI_API_KEY 仅用于服务器端身份验证，
-// 不会加入到 cookieStore 中，以确保安全性
+/**
+ * 令牌到期检查配置
+ */
+const TOKEN_EXPIRY_CONFIG = {
+  checkInterval: 60 * 60 * 1000, // 到期提醒的检查间隔（毫秒）
+  webhookTimeout: 10 * 1000 // Webhook 请求超时（毫秒）
+};
 
-// 显示初始化信息
-if (!config.openaiApiKey) {
-  console.warn('⚠️ 未设置 OPENAI_API_KEY。');
-  console.warn(
-    '   建议：通过环境变量设置默认密钥，或使用 /cookies 接口导入密钥。'
-  );
-  console.warn('   如果没有导入任何密钥，服务将无法正常工作。');
+/**
+ * 解码 JWT 的载荷部分（不校验签名）
+ * @param token JWT 字符串
+ * @returns 载荷对象，不是合法 JWT 时返回 null
+ */
+function decodeJwtPayload(token: string): Record<string, any> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    // base64url 转换为标准 base64 后解码
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const payload = JSON.parse(new TextDecoder().decode(decode(padded)));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch {
+    return null;
+  }
 }
 
-// --- Cookie 解析功能 ---
-
 /**
- * 解析 Cookie 字符串，提取 token（API_KEY）和 ssxmod_itna 字段
- * @param cookieString 完整的 Cookie 字符串
- * @returns 解析结果对象 { token?: string, ssxmodItna?: string }
+ * 从 JWT 令牌中解析过期时间和账户标识
+ * @param token 上游 API_KEY
+ * @returns 过期时间戳和账户标识（非 JWT 或缺少字段时为空对象）
  */
-function parseCookieString(cookieString: string): {
-  token?: string;
-  ssxmodItna?: string;
+function parseTokenClaims(token: string): {
+  expiresAt?: number;
+  accountId?: string;
 } {
-  const result: { token?: string; ssxmodItna?: string } = {};
-
-  try {
+  const payload = decodeJwtPayload(token);
+  if (!payload) return {};
+  const accountId = payload.id ?? payload.sub;
+  return {
+    ...(typeof payload.exp === 'number' && { expiresAt: payload.exp * 1000 }),
+    ...(accountId !== undefined && { accountId: String(accountId) })
+  };
+}
+
+/**
+ * 判断令牌是否已过期（未解析出过期时间的令牌视为未过期）
+ * @param token 令牌存储项
+ * @returns 是否已过期
+ */
+function isTokenExpired(token: TokenItem): boolean {
+  return !!token.expiresAt && token.expiresAt <= Date.now();
+}
+
+/**
+ * 格式化剩余时间
+ * @param ms 剩余毫秒数
+ * @returns 如 "3天5小时"、"2小时10分钟"，不足 0 时返回 "已过期"
+ */
+function formatRemainingTime(ms: number): string {
+  if (ms <= 0) return '已过期';
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}天${hours}小时`;
+  if (hours > 0) return `${hours}小时${minutes % 60}分钟`;
+  return `${minutes}分钟`;
+}
+
+/**
+ * 为升级前导入、尚未记录有效期的令牌补充 JWT 信息
+ */
+async function backfillTokenClaims(): Promise<void> {
+  for (const token of await kvStore.getApiKeys()) {
+    if (token.expiresAt || token.accountId) continue;
+    const claims = parseTokenClaims(token.value);
+    if (claims.expiresAt || claims.accountId) {
+      await kvStore.updateApiKey(token.value, claims);
+    }
+  }
+}
+
+/**
+ * 检查即将到期的令牌并发出提醒（日志，配置了 Webhook 时同时通知）
+ * 每个令牌只提醒一次
+ */
+async function checkTokenExpiry(): Promise<void> {
+  const alertWindow = config.tokenExpiryAlertHours * 60 * 60 * 1000;
+  const now = Date.now();
+
+  for (const token of await kvStore.getApiKeys()) {
+    if (!token.isValid || !token.expiresAt || token.expiryAlertedAt) continue;
+    const remaining = token.expiresAt - now;
+    if (remaining > alertWindow) continue;
+
+    const masked = maskTokenValue(token.value);
+    if (remaining <= 0) {
+      // 已过期的令牌不再发送到期提醒，只记录一次日志
+      console.warn(`API_KEY 已过期，请重新导入 Cookie: ${masked}`);
+      await kvStore.updateApiKey(token.value, { expiryAlertedAt: now });
+      continue;
+    }
+    console.warn(
+      `⚠️ API_KEY 即将到期（剩余 ${formatRemainingTime(
+        remaining
+      )}），请重新导入 Cookie: ${masked}`
+    );
+    if (config.tokenExpiryWebhook) {
+      try {
+        const response = await fetch(config.tokenExpiryWebhook, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            event: 'token_expiring',
+            token: masked,
+            accountId: token.accountId || null,
+            expiresAt: new Date(token.expiresAt).toISOString(),
+            remaining: formatRemainingTime(remaining)
+          }),
+          signal: AbortSignal.timeout(TOKEN_EXPIRY_CONFIG.webhookTimeout)
+        });
+        await response.body?.cancel();
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      } catch (err) {
+        // 通知失败时不记录提醒时间，下次检查时重试
+        console.error('发送令牌到期提醒失败：', (err as Error).message);
+        continue;
+      }
+    }
+    await kvStore.updateApiKey(token.value, { expiryAlertedAt: now });
+  }
+}
+
+// --- 初始化内存存储 ---
+
+// 注意：环境变量中的 OPENAI_API_KEY 仅用于服务器端身份验证，
+// 不会加入到 cookieStore 中，以确保安全性
+
+// 显示初始化信息
+if (!config.openaiApiKey) {
+  console.warn('⚠️ 未设置 OPENAI_API_KEY。');
+  console.warn(
+    '   建议：通过环境变量设置默认密钥，或使用 /cookies 接口导入密钥。'
+  );
+  console.warn('   如果没有导入任何密钥，服务将无法正常工作。');
+}
+
+// --- Cookie 解析功能 ---
+
+// 与 token、ssxmod_itna 一同保存到凭据中的其他上游 Cookie
+const CREDENTIAL_COOKIE_NAMES = ['ssxmod_itna2'];
+
+/**
+ * 解析 Cookie 字符串，提取 token（API_KEY）、ssxmod_itna 和其他需要保存的字段
+ * @param cookieString 完整的 Cookie 字符串
+ * @returns 解析结果对象 { token?: string, ssxmodItna?: string, cookies?: Record<string, string> }
+ */
+function parseCookieString(cookieString: string): {
+  token?: string;
+  ssxmodItna?: string;
+  cookies?: Record<string, string>;
+} {
+  const result: {
+    token?: string;
+    ssxmodItna?: string;
+    cookies?: Record<string, string>;
+  } = {};
+
+  try {
     // 清理 Cookie 字符串（去掉前后空白）
     const cleanCookie = cookieString.trim();
 
@@ -680,6 +1951,17 @@ function parseCookieString(cookieString: string): {
       }
     }
 
+    // 提取需要随凭据保存的其他 Cookie
+    for (const name of CREDENTIAL_COOKIE_NAMES) {
+      const match = cleanCookie.match(new RegExp(`(?:^|;)\\s*${name}=([^;]+)`));
+      if (match && match[1].trim()) {
+        result.cookies = {
+          ...result.cookies,
+          [name]: decodeURIComponent(match[1].trim())
+        };
+      }
+    }
+
     console.log(
       `Cookie 解析完成 - token: ${
         result.token ? '已提取' : '未找到'
@@ -704,9 +1986,14 @@ async function batchParseCookies(cookieStrings: string[]): Promise<{
 }> {
   let tokensAdded = 0;
   let ssxmodsAdded = 0;
+  let pairedSsxmods = 0; // 新绑定或更新绑定的 ssxmod_itna 数量
   
   // 获取处理前的数据
   const beforeApiKeys = await kvStore.getApiKeys();
+  // 记录每个 token 已绑定的 ssxmod_itna，重复导入相同的组合时不重复计数
+  const pairedByToken = new Map(
+    beforeApiKeys.map(item => [item.value, item.ssxmodItna])
+  );
   const beforeSsxmods = await kvStore.getSsxmodTokens();
   const beforeApiKeyCount = beforeApiKeys.length;
   const beforeSsxmodCount = beforeSsxmods.length;
@@ -718,13 +2005,21 @@ async function batchParseCookies(cookieStrings: string[]): Promise<{
 
     const parsed = parseCookieString(cookieString);
 
-    // 添加解析出的 token
     if (parsed.token) {
-      await addApiKey(parsed.token);
-    }
-
-    // 添加解析出的 ssxmod_itna
-    if (parsed.ssxmodItna) {
+      // token 与同一 Cookie 中的 ssxmod_itna 等值存为一条凭据
+      await addApiKey(parsed.token, {
+        ssxmodItna: parsed.ssxmodItna,
+        cookies: parsed.cookies
+      });
+      if (
+        parsed.ssxmodItna &&
+        pairedByToken.get(parsed.token) !== parsed.ssxmodItna
+      ) {
+        pairedByToken.set(parsed.token, parsed.ssxmodItna);
+        pairedSsxmods++;
+      }
+    } else if (parsed.ssxmodItna) {
+      // 只有 ssxmod_itna 的 Cookie 作为共享值，供未绑定的 API_KEY 使用
       await addSsxmodItna(parsed.ssxmodItna);
     }
   }
@@ -733,7 +2028,7 @@ async function batchParseCookies(cookieStrings: string[]): Promise<{
   const afterApiKeys = await kvStore.getApiKeys();
   const afterSsxmods = await kvStore.getSsxmodTokens();
   tokensAdded = afterApiKeys.length - beforeApiKeyCount;
-  ssxmodsAdded = afterSsxmods.length - beforeSsxmodCount;
+  ssxmodsAdded = afterSsxmods.length - beforeSsxmodCount + pairedSsxmods;
 
   const result = {
     tokensAdded,
@@ -753,10 +2048,15 @@ let tokenIndex = 0;
 /**
  * 获取下一个可用的上游 API 令牌
  * 现在使用KV存储管理的动态密钥轮换
+ * @param exclude 需要跳过的令牌（故障转移时已尝试过的令牌）
+ * @param allowProbe 是否可以选中熔断后探测阶段的令牌
  * @returns 当前轮换到的 API 令牌，如果没有可用密钥则返回空字符串
  */
-async function getUpstreamToken(): Promise<string> {
-  const apiKey = await getValidApiKey();
+async function getUpstreamToken(
+  exclude: string[] = [],
+  allowProbe = true
+): Promise<string> {
+  const apiKey = await getValidApiKey(exclude, allowProbe);
   if (!apiKey) {
     console.warn('警告：没有可用的 API 密钥！请通过 /cookies 接口导入密钥。');
     return '';
@@ -766,14 +2066,47 @@ async function getUpstreamToken(): Promise<string> {
 
 // --- 2. 核心转换逻辑（基于原始 Node.js 项目分析） ---
 
+/**
+ * 构建 Qwen 网页端格式的文档附件，放入用户消息的 files 字段
+ *
+ * @param uploadResult uploadFileToQwenOss 的返回值
+ * @param filename 原始文件名
+ * @param size 文件大小（字节）
+ * @returns Qwen 文档附件对象
+ */
+function buildQwenFileAttachment(
+  uploadResult: { file_url: string; file_id: string; mime_type: string },
+  filename: string,
+  size: number
+) {
+  return {
+    type: 'file',
+    file: {
+      id: uploadResult.file_id,
+      filename,
+      meta: { name: filename, size, content_type: uploadResult.mime_type }
+    },
+    id: uploadResult.file_id,
+    url: uploadResult.file_url,
+    name: filename,
+    size,
+    status: 'uploaded',
+    file_type: uploadResult.mime_type,
+    file_class: 'document',
+    showType: 'file'
+  };
+}
+
 /**
  * 异步处理 OpenAI 消息以处理 Qwen 的多模态内容
  *
  * 此函数的主要职责：
- * 1. 检测 OpenAI 格式消息中的 base64 图像
- * 2. 将 base64 图像上传到 Qwen 的 OSS 存储
- * 3. 将上传后的图像 URL 转换为 Qwen 期望的格式
- * 4. 处理文本和图像的混合内容
+ * 1. 检测 OpenAI 格式消息中的 base64 图像、远程图像 URL、input_audio 音频
+ *    和 file 文档附件
+ * 2. 将图像（远程图像先下载）、音频和文档上传到 Qwen 的 OSS 存储
+ * 3. 将上传后的图像和音频 URL 转换为 Qwen 期望的格式，文档按 Qwen 网页端的
+ *    方式放入消息的 files 字段
+ * 4. 处理文本与图像、音频的混合内容
  *
  * @param messages 来自 OpenAI 请求的消息数组
  * @param qwenAuthToken 与 Qwen 上传 API 认证所需的令牌
@@ -794,7 +2127,8 @@ async function processMessagesForQwen(
     // 只处理用户消息且内容为数组格式的情况（多模态消息）
     if (message.role === 'user' && Array.isArray(message.content)) {
       const newContent = [];
-      let hasImage = false; // 标记是否包含图像
+      const files: any[] = []; // 文档附件
+      let hasMedia = false; // 标记是否包含图像或音频
 
       // 处理消息内容的每个部分
       for (const part of message.content) {
@@ -803,7 +2137,7 @@ async function processMessagesForQwen(
           part.type === 'image_url' &&
           part.image_url?.url?.startsWith('data:')
         ) {
-          hasImage = true;
+          hasMedia = true;
           const base64Data = part.image_url.url;
           // 解析 base64 数据格式：data:image/jpeg;base64,/9j/4AAQ...
           const match = base64Data.match(/^data:(image\/\w+);base64,(.*)$/);
@@ -835,21 +2169,104 @@ async function processMessagesForQwen(
               text: `[图像上传失败: ${(e as Error).message}]`
             });
           }
+        } else if (part.type === 'file') {
+          // 处理 base64 文档附件：{ file: { file_data, filename } }
+          const fileData: string = part.file?.file_data || '';
+          if (!fileData) {
+            console.warn('跳过不支持的文件附件（仅支持 file_data）。');
+            newContent.push({ type: 'text', text: '[不支持的文件附件]' });
+            continue;
+          }
+
+          // file_data 可以是 data URL 或裸 base64 数据
+          const base64 = fileData.replace(/^data:[^;,]*;base64,/, '');
+          const filename = part.file?.filename || `${crypto.randomUUID()}.bin`;
+          try {
+            const buffer = decode(base64);
+            const uploadResult = await uploadFileToQwenOss(
+              buffer,
+              filename,
+              qwenAuthToken
+            );
+            if (uploadResult.mime_type.startsWith('image/')) {
+              // 以文件形式发送的图像仍按图像处理
+              hasMedia = true;
+              newContent.push({ type: 'image', image: uploadResult.file_url });
+            } else {
+              files.push(
+                buildQwenFileAttachment(uploadResult, filename, buffer.length)
+              );
+            }
+          } catch (e) {
+            console.error('上传文件到 Qwen OSS 失败：', e);
+            newContent.push({
+              type: 'text',
+              text: `[文件 ${filename} 上传失败: ${(e as Error).message}]`
+            });
+          }
+        } else if (part.type === 'input_audio') {
+          // 处理 base64 音频输入：{ input_audio: { data, format } }，format 仅支持 wav 和 mp3
+          const format = part.input_audio?.format || 'wav';
+          try {
+            if (format !== 'wav' && format !== 'mp3') {
+              throw new Error(`不支持的音频格式 ${format}`);
+            }
+            const buffer = decode(part.input_audio?.data || '');
+            const mimeType = detectMimeType(buffer, '');
+            if (!mimeType.startsWith('audio/')) {
+              throw new Error(`内容不是音频（${mimeType}）`);
+            }
+            const uploadResult = await uploadFileToQwenOss(
+              buffer,
+              `${crypto.randomUUID()}.${format}`,
+              qwenAuthToken
+            );
+            hasMedia = true;
+            // 转换为 Qwen 期望的音频格式
+            newContent.push({ type: 'audio', audio: uploadResult.file_url });
+          } catch (e) {
+            console.error('处理音频输入失败：', e);
+            newContent.push({
+              type: 'text',
+              text: `[音频上传失败: ${(e as Error).message}]`
+            });
+          }
         } else if (part.type === 'image_url') {
-          // 处理普通的图像 URL，转换为 Markdown 格式作为备用方案
-          newContent.push({
-            type: 'text',
-            text: `![]( ${part.image_url.url} )`
-          });
+          // 处理远程图像 URL：下载后重新上传到 Qwen OSS
+          const imageUrl = part.image_url.url;
+          try {
+            const buffer = await downloadRemoteImage(imageUrl);
+            const mimeType = detectMimeType(buffer, '');
+            if (!mimeType.startsWith('image/')) {
+              throw new Error(`下载的内容不是图像（${mimeType}）`);
+            }
+            const uploadResult = await uploadFileToQwenOss(
+              buffer,
+              `${crypto.randomUUID()}.${mimeType.split('/')[1]}`,
+              qwenAuthToken
+            );
+            hasMedia = true;
+            newContent.push({ type: 'image', image: uploadResult.file_url });
+          } catch (e) {
+            // 下载或上传失败时，转换为 Markdown 格式作为备用方案
+            console.warn(
+              `处理远程图像失败，使用 Markdown 备用方案：${imageUrl}`,
+              (e as Error).message
+            );
+            newContent.push({
+              type: 'text',
+              text: `![]( ${imageUrl} )`
+            });
+          }
         } else {
           // 保持其他内容不变
           newContent.push(part);
         }
       }
 
-      // 根据是否包含图像决定最终格式
-      // Qwen API 期望：包含图像时内容为数组，纯文本时为字符串
-      if (hasImage) {
+      // 根据是否包含图像或音频决定最终格式
+      // Qwen API 期望：包含图像或音频时内容为数组，纯文本时为字符串
+      if (hasMedia) {
         // 扁平化文本部分，将连续的文本合并为单个文本项
         const flattenedContent = [];
         let textParts = [];
@@ -872,14 +2289,22 @@ async function processMessagesForQwen(
         if (textParts.length > 0) {
           flattenedContent.push({ type: 'text', text: textParts.join('\n') });
         }
-        processedMessages.push({ ...message, content: flattenedContent });
+        processedMessages.push({
+          ...message,
+          content: flattenedContent,
+          ...(files.length > 0 ? { files } : {})
+        });
       } else {
         // 无图像，将所有文本部分合并为单个字符串
-        const combinedText = message.content
+        const combinedText = newContent
           .filter((p: any) => p.type === 'text')
           .map((p: any) => p.text)
           .join('\n');
-        processedMessages.push({ ...message, content: combinedText });
+        processedMessages.push({
+          ...message,
+          content: combinedText,
+          ...(files.length > 0 ? { files } : {})
+        });
       }
     } else {
       // 非多模态消息，保持原样
@@ -897,11 +2322,18 @@ async function processMessagesForQwen(
  * 1. 模型名称处理：移除特殊后缀，确定聊天类型
  * 2. 添加 Qwen 特有的字段：session_id, chat_id, feature_config 等
  * 3. 根据模型后缀设置不同的聊天类型和功能
+ * 4. 合并 system/developer 提示词和连续的同角色消息
+ * 5. 将 tools/tool_choice 和工具消息转换为提示词（工具调用模拟）
+ * 6. 按 response_format 在系统提示词中追加 JSON 输出要求
  *
  * @param openAIRequest 传入的 OpenAI 格式请求体
+ * @param context 会话保持模式下复用的上游聊天上下文（可选）
  * @returns 转换后的 Qwen API 请求体
  */
-function transformOpenAIRequestToQwen(openAIRequest: any): any {
+function transformOpenAIRequestToQwen(
+  openAIRequest: any,
+  context?: QwenChatContext
+): any {
   const model = openAIRequest.model || 'qwen3-max';
 
   // 根据模型后缀确定聊天类型
@@ -913,293 +2345,5691 @@ function transformOpenAIRequestToQwen(openAIRequest: any): any {
   // 清理模型名称，移除特殊后缀
   const qwenModel = model.replace(/-search|-thinking|-image|-video/g, '');
 
+  // 合并系统提示词、模拟工具调用，并按 response_format 追加 JSON 输出要求
+  let messages = applyToolEmulation({
+    ...openAIRequest,
+    messages: mergeSystemMessages(openAIRequest.messages || [])
+  });
+  const responseFormatPrompt = buildResponseFormatPrompt(
+    openAIRequest.response_format
+  );
+  if (responseFormatPrompt) {
+    messages = appendSystemPrompt(messages, responseFormatPrompt);
+  }
+  // 工具结果转换后可能出现连续的同角色消息
+  messages = mergeConsecutiveMessages(messages);
+
   // 构建 Qwen API 格式的请求体
   const qwenBody = {
     model: qwenModel, // 清理后的模型名
-    messages: openAIRequest.messages, // 消息已经预处理过
+    messages: messages, // 消息已经预处理过，工具调用转换为文本
     stream: true, // 启用流式响应
     incremental_output: true, // 启用增量输出
     chat_type: chat_type, // 聊天类型
-    session_id: crypto.randomUUID(), // 生成唯一会话 ID
-    chat_id: crypto.randomUUID(), // 生成唯一聊天 ID
+    session_id: context?.sessionId ?? crypto.randomUUID(), // 会话 ID（会话保持时复用）
+    chat_id: context?.chatId ?? crypto.randomUUID(), // 聊天 ID（会话保持时复用）
+    // 会话保持时接在上一条回复之后
+    ...(context?.parentId ? { parent_id: context.parentId } : {}),
     feature_config: {
       // 功能配置
       output_schema: 'phase', // 输出架构类型
       thinking_enabled: model.includes('-thinking') // 是否启用思考模式
-    }
+    },
+    // 文生图/文生视频的宽高比（由图像和视频生成端点传入）
+    ...((chat_type === 't2i' || chat_type === 't2v') && openAIRequest.size
+      ? { size: openAIRequest.size }
+      : {})
   };
 
   return qwenBody;
 }
 
+// --- 消息角色规范化 ---
+
 /**
- * 创建转换流，将 Qwen SSE 响应流转换为 OpenAI 兼容的 SSE 流
+ * 合并 system 和 developer 消息
+ * Qwen 只识别开头的单条系统消息，因此按出现顺序合并为一条放在最前面
  *
- * 此函数模拟 `chat.js` 中 `handleStreamResponse` 的逻辑
- *
- * 转换过程：
- * 1. 解析 Qwen 的 SSE 数据格式
- * 2. 处理特殊的 <think> 标签（思考模式）
- * 3. 转换为 OpenAI 标准的 chunk 格式
- * 4. 保持流的实时性和完整性
+ * @param messages OpenAI 格式的消息数组
+ * @returns 新的消息数组
+ */
+function mergeSystemMessages(messages: any[]): any[] {
+  const prompts: string[] = [];
+  const result: any[] = [];
+  for (const message of messages) {
+    if (message.role === 'system' || message.role === 'developer') {
+      const text = extractTextContent(message.content);
+      if (text) prompts.push(text);
+    } else {
+      result.push(message);
+    }
+  }
+  if (prompts.length > 0) {
+    result.unshift({ role: 'system', content: prompts.join('\n\n') });
+  }
+  return result;
+}
+
+/**
+ * 将消息内容转换为内容部分数组
+ * @param content 字符串或内容部分数组
+ * @returns 内容部分数组
+ */
+function toContentParts(content: any): any[] {
+  if (Array.isArray(content)) return content;
+  const text = extractTextContent(content);
+  return text ? [{ type: 'text', text }] : [];
+}
+
+/**
+ * 合并连续的同角色消息（user/assistant），避免上游拒绝或忽略重复角色
+ * 纯文本内容以空行拼接，包含图像等内容部分时合并为数组
  *
- * @returns TransformStream，用于处理从 Qwen 到 OpenAI 格式的流转换
+ * @param messages 已转换工具消息的消息数组
+ * @returns 新的消息数组
  */
-function createQwenToOpenAIStreamTransformer(): TransformStream<
-  Uint8Array,
-  Uint8Array
-> {
-  const decoder = new TextDecoder(); // 解码器，将字节转换为文本
-  const encoder = new TextEncoder(); // 编码器，将文本转换为字节
-  let buffer = ''; // 缓冲区，存储不完整的数据行
-  const messageId = crypto.randomUUID(); // 生成唯一的消息 ID
+function mergeConsecutiveMessages(messages: any[]): any[] {
+  const result: any[] = [];
+  for (const message of messages) {
+    const last = result[result.length - 1];
+    if (
+      !last ||
+      last.role !== message.role ||
+      (message.role !== 'user' && message.role !== 'assistant')
+    ) {
+      result.push(message);
+      continue;
+    }
 
-  return new TransformStream({
-    // 转换函数：处理每个数据块
-    transform(chunk, controller) {
-      // 将新的数据块添加到缓冲区
-      buffer += decoder.decode(chunk, { stream: true });
+    const content =
+      typeof last.content === 'string' && typeof message.content === 'string'
+        ? [last.content, message.content].filter(Boolean).join('\n\n')
+        : [...toContentParts(last.content), ...toContentParts(message.content)];
+    const files = [...(last.files || []), ...(message.files || [])];
+    result[result.length - 1] = {
+      ...last,
+      content,
+      ...(files.length > 0 ? { files } : {})
+    };
+  }
+  return result;
+}
 
-      // 按 SSE 格式分割行（双换行符分隔）
-      const lines = buffer.split('\n\n');
-      buffer = lines.pop() || ''; // 保留最后一个不完整的行
+// --- 工具调用模拟 ---
 
-      // 处理每一行数据
-      for (const line of lines) {
-        if (!line.startsWith('data:')) continue; // 跳过非数据行
+// 工具调用块的开闭标签（模型输出与历史消息共用）
+const TOOL_CALL_OPEN_TAG = '<tool_call>';
+const TOOL_CALL_CLOSE_TAG = '</tool_call>';
 
-        try {
-          // 解析 Qwen 的 JSON 数据（移除 'data:' 前缀）
-          const qwenChunk = JSON.parse(line.substring(5));
-          if (!qwenChunk.choices || qwenChunk.choices.length === 0) continue;
+/**
+ * 将 OpenAI 消息内容统一转换为纯文本
+ * @param content 字符串或内容部分数组
+ * @returns 拼接后的文本
+ */
+function extractTextContent(content: any): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((part: any) => part?.type === 'text')
+      .map((part: any) => part.text)
+      .join('\n');
+  }
+  return content == null ? '' : JSON.stringify(content);
+}
+
+/**
+ * 将额外说明追加到系统提示词（没有系统消息时在开头插入一条）
+ * @param messages OpenAI 格式的消息数组
+ * @param prompt 要追加的说明文本
+ * @returns 新的消息数组
+ */
+function appendSystemPrompt(messages: any[], prompt: string): any[] {
+  const result = [...messages];
+  const first = result[0];
+  if (first?.role === 'system') {
+    result[0] = {
+      ...first,
+      content: `${extractTextContent(first.content)}\n\n${prompt}`
+    };
+  } else {
+    result.unshift({ role: 'system', content: prompt });
+  }
+  return result;
+}
 
-          const delta = qwenChunk.choices[0].delta;
-          if (!delta) continue;
+/**
+ * 将单个工具调用格式化为文本块，用于回放历史中的 assistant 工具调用
+ * @param name 函数名称
+ * @param args 参数（JSON 字符串或对象）
+ * @returns <tool_call> 文本块
+ */
+function formatToolCallBlock(name: string, args: any): string {
+  let parsedArgs = args;
+  if (typeof args === 'string') {
+    try {
+      parsedArgs = JSON.parse(args || '{}');
+    } catch {
+      parsedArgs = args; // 非法 JSON 时保持原样
+    }
+  }
+  return `${TOOL_CALL_OPEN_TAG}\n${JSON.stringify({
+    name,
+    arguments: parsedArgs ?? {}
+  })}\n${TOOL_CALL_CLOSE_TAG}`;
+}
 
-          let content = delta.content || '';
+/**
+ * 根据 tools 和 tool_choice 构建注入到系统提示词中的工具说明
+ *
+ * @param tools OpenAI 格式的工具定义数组
+ * @param toolChoice OpenAI 格式的 tool_choice
+ * @returns 工具说明文本
+ */
+function buildToolPrompt(tools: any[], toolChoice: any): string {
+  const definitions = tools
+    .filter(tool => tool?.type === 'function' && tool.function?.name)
+    .map(tool =>
+      JSON.stringify({
+        name: tool.function.name,
+        description: tool.function.description || '',
+        parameters: tool.function.parameters || { type: 'object' }
+      })
+    )
+    .join('\n');
+
+  // 根据 tool_choice 生成调用要求
+  let requirement = '如果不需要调用工具，请直接回答用户。';
+  if (toolChoice === 'required') {
+    requirement = '本轮回复必须至少调用一个工具。';
+  } else if (toolChoice?.type === 'function' && toolChoice.function?.name) {
+    requirement = `本轮回复必须调用工具 ${toolChoice.function.name}。`;
+  }
 
-          // 处理特殊的 <think> 标签（思考模式功能）
-          if (delta.phase === 'think' && !buffer.includes('<think>')) {
-            content = `<think>\n${content}`;
-          }
-          if (
-            delta.phase === 'answer' &&
-            buffer.includes('<think>') &&
-            !buffer.includes('</think>')
-          ) {
-            content = `\n</think>\n${content}`;
-          }
+  return [
+    '# 可用工具',
+    '你可以调用以下工具来完成用户的请求，每个工具以 JSON Schema 描述：',
+    '<tools>',
+    definitions,
+    '</tools>',
+    '',
+    '# 调用方式',
+    '需要调用工具时，请为每次调用输出一个如下格式的块，可以连续输出多个：',
+    TOOL_CALL_OPEN_TAG,
+    '{"name": "工具名称", "arguments": {"参数名": "参数值"}}',
+    TOOL_CALL_CLOSE_TAG,
+    '块内只能包含合法的 JSON。输出工具调用后立即结束回复，等待工具结果。',
+    '工具结果会以 <tool_response> 块的形式出现在后续的用户消息中。',
+    requirement
+  ].join('\n');
+}
 
-          // 构建 OpenAI 标准格式的数据块
-          const openAIChunk = {
-            id: `chatcmpl-${messageId}`, // OpenAI 格式的 ID
-            object: 'chat.completion.chunk', // 对象类型
-            created: Math.floor(Date.now() / 1000), // Unix 时间戳
-            model: qwenChunk.model || 'qwen', // 模型名称
-            choices: [
-              {
-                index: 0, // 选择索引
-                delta: { content: content }, // 内容增量
-                finish_reason: qwenChunk.choices[0].finish_reason || null // 结束原因
-              }
-            ]
-          };
+/**
+ * 将包含工具定义和工具消息的 OpenAI 消息数组转换为 Qwen 可理解的纯对话
+ *
+ * 转换内容：
+ * 1. 将工具说明注入系统提示词（tool_choice 为 "none" 时不注入）
+ * 2. 将 assistant 的 tool_calls 回放为 <tool_call> 文本块
+ * 3. 将 tool/function 角色的结果转换为包含 <tool_response> 的用户消息
+ *
+ * 未注入工具说明时（没有 tools 或 tool_choice 为 "none"），历史中的工具调用和
+ * 工具结果改为可读的文本说明，避免模型模仿未说明的标签格式
+ *
+ * @param openAIRequest OpenAI 格式的请求体
+ * @returns 转换后的消息数组
+ */
+function applyToolEmulation(openAIRequest: any): any[] {
+  const messages: any[] = openAIRequest.messages || [];
+  const tools: any[] = Array.isArray(openAIRequest.tools)
+    ? openAIRequest.tools
+    : [];
+  const toolChoice = openAIRequest.tool_choice;
+  const emulate = tools.length > 0 && toolChoice !== 'none';
+
+  // 记录工具调用 ID 与函数名称的对应关系，用于标注工具结果
+  const toolNames = new Map<string, string>();
+  const result: any[] = [];
 
-          // 发送转换后的数据块
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify(openAIChunk)}\n\n`)
-          );
-        } catch (e) {
-          console.error('解析 Qwen 流数据块时出错：', e);
+  for (const message of messages) {
+    if (message.role === 'assistant' && Array.isArray(message.tool_calls)) {
+      const blocks = message.tool_calls.map((call: any) => {
+        toolNames.set(call.id, call.function?.name);
+        if (!emulate) {
+          return `[调用工具 ${call.function?.name}，参数：${
+            call.function?.arguments || '{}'
+          }]`;
         }
+        return formatToolCallBlock(
+          call.function?.name,
+          call.function?.arguments
+        );
+      });
+      const text = extractTextContent(message.content);
+      result.push({
+        role: 'assistant',
+        content: [text, ...blocks].filter(Boolean).join('\n')
+      });
+    } else if (message.role === 'tool' || message.role === 'function') {
+      const name =
+        message.name || toolNames.get(message.tool_call_id) || 'unknown';
+      const idAttr = message.tool_call_id
+        ? ` tool_call_id="${message.tool_call_id}"`
+        : '';
+      const output = extractTextContent(message.content);
+      const block = emulate
+        ? `<tool_response name="${name}"${idAttr}>\n${output}\n</tool_response>`
+        : `[工具 ${name} 的执行结果]\n${output}`;
+
+      // 连续的工具结果合并到同一条用户消息中
+      const last = result[result.length - 1];
+      if (last?.role === 'user' && last.isToolResponse) {
+        last.content += `\n${block}`;
+      } else {
+        result.push({ role: 'user', content: block, isToolResponse: true });
       }
-    },
-    // 刷新函数：处理流结束
-    flush(controller) {
-      // 发送最终的完成标记
-      controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
+    } else {
+      result.push(message);
     }
-  });
-}
+  }
 
-// --- 路由处理函数 ---
+  // 移除内部标记字段
+  for (const message of result) {
+    delete message.isToolResponse;
+  }
+
+  // 注入工具说明到系统提示词
+  if (emulate) {
+    return appendSystemPrompt(result, buildToolPrompt(tools, toolChoice));
+  }
+
+  return result;
+}
 
 /**
- * 处理获取模型列表的逻辑
- * 从 Qwen API 获取模型列表并添加特殊变体
- *
- * 功能：
- * 1. 从上游 Qwen API 获取原始模型列表
- * 2. 基于模型能力自动生成特殊变体（如 -thinking、-search、-image）
- * 3. 返回 OpenAI 兼容的模型列表格式
- *
- * @returns 包含模型列表或错误信息的响应对象
+ * 解析 <tool_call> 块内的 JSON 为 OpenAI 格式的工具调用
+ * @param body 块内文本（可能带有代码围栏）
+ * @param index 工具调用序号
+ * @returns OpenAI 格式的工具调用，解析失败时返回 null
  */
-async function handleGetModels() {
-  // 获取轮换的上游令牌
-  const token = await getUpstreamToken();
-  if (!token) {
+function parseToolCallBlock(body: string, index: number): any | null {
+  const json = body
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed?.name) return null;
+    const args = parsed.arguments ?? parsed.parameters ?? {};
     return {
-      status: 503,
-      body: { error: '上游令牌未配置。' }
+      index,
+      id: `call_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`,
+      type: 'function',
+      function: {
+        name: parsed.name,
+        arguments: typeof args === 'string' ? args : JSON.stringify(args)
+      }
     };
+  } catch {
+    return null;
   }
+}
 
-  try {
-    // 从 Qwen API 获取模型列表
-    const response = await fetch('https://chat.qwen.ai/api/models', {
-      headers: { Authorization: `Bearer ${token}` }
-    });
-
-    if (!response.ok) {
-      throw new Error(`获取模型失败：${response.statusText}`);
+/**
+ * 创建工具调用增量解析器（每个响应流独立一个实例）
+ *
+ * 从回答文本中识别 <tool_call>...</tool_call> 块：
+ * 1. 块之外的文本原样输出
+ * 2. 文本末尾可能是开标签前缀时暂缓输出，等待后续增量
+ * 3. 完整的块解析为工具调用，解析失败时按普通文本输出
+ *
+ * @returns 包含 push（处理增量）和 flush（流结束时输出剩余内容）方法的对象
+ */
+function createToolCallParser() {
+  let buffer = ''; // 尚未确定归属的文本
+  let inBlock = false; // 是否位于工具调用块内部
+  let index = 0; // 下一个工具调用的序号
+
+  // 计算文本末尾与开标签前缀重叠的长度
+  const partialTagLength = (text: string): number => {
+    for (
+      let len = Math.min(text.length, TOOL_CALL_OPEN_TAG.length - 1);
+      len > 0;
+      len--
+    ) {
+      if (TOOL_CALL_OPEN_TAG.startsWith(text.slice(-len))) return len;
     }
+    return 0;
+  };
 
-    const originalModels = (await response.json()).data;
-    const processedModels: any[] = [];
+  return {
+    push(text: string): { text: string; toolCalls: any[] } {
+      buffer += text;
+      let output = '';
+      const toolCalls: any[] = [];
+
+      while (true) {
+        if (!inBlock) {
+          const start = buffer.indexOf(TOOL_CALL_OPEN_TAG);
+          if (start === -1) {
+            const keep = partialTagLength(buffer);
+            output += buffer.slice(0, buffer.length - keep);
+            buffer = buffer.slice(buffer.length - keep);
+            break;
+          }
+          output += buffer.slice(0, start);
+          buffer = buffer.slice(start + TOOL_CALL_OPEN_TAG.length);
+          inBlock = true;
+        } else {
+          const end = buffer.indexOf(TOOL_CALL_CLOSE_TAG);
+          if (end === -1) break; // 等待块结束
+          const body = buffer.slice(0, end);
+          const toolCall = parseToolCallBlock(body, index);
+          if (toolCall) {
+            toolCalls.push(toolCall);
+            index++;
+          } else {
+            output += `${TOOL_CALL_OPEN_TAG}${body}${TOOL_CALL_CLOSE_TAG}`;
+          }
+          buffer = buffer.slice(end + TOOL_CALL_CLOSE_TAG.length);
+          inBlock = false;
+        }
+      }
 
-    // 处理每个原始模型，添加特殊变体
-    for (const model of originalModels) {
-      processedModels.push(model); // 添加原始模型
+      return { text: output, toolCalls };
+    },
 
-      // 基于原始项目逻辑添加特殊变体
-      if (model?.info?.meta?.abilities?.thinking) {
-        // 如果模型支持思考功能，添加 -thinking 变体
-        processedModels.push({ ...model, id: `${model.id}-thinking` });
+    flush(): { text: string; toolCalls: any[] } {
+      const rest = buffer;
+      buffer = '';
+      if (!inBlock) return { text: rest, toolCalls: [] };
+
+      // 块未闭合：尝试按完整块解析，失败时作为文本输出
+      inBlock = false;
+      const toolCall = parseToolCallBlock(rest, index);
+      if (toolCall) {
+        index++;
+        return { text: '', toolCalls: [toolCall] };
       }
-      if (model?.info?.meta?.chat_type?.includes('search')) {
+      return { text: `${TOOL_CALL_OPEN_TAG}${rest}`, toolCalls: [] };
+    }
+  };
+}
+
+// --- JSON 输出模式 ---
+
+/**
+ * 获取 response_format 的类型
+ * @param responseFormat OpenAI 格式的 response_format
+ * @returns 'json_object'、'json_schema'，或 null（不要求 JSON 输出）
+ */
+function getResponseFormatType(
+  responseFormat: any
+): 'json_object' | 'json_schema' | null {
+  const type = responseFormat?.type;
+  return type === 'json_object' || type === 'json_schema' ? type : null;
+}
+
+/**
+ * 根据 response_format 构建注入到系统提示词中的 JSON 输出要求
+ * @param responseFormat OpenAI 格式的 response_format
+ * @returns JSON 输出要求文本，不要求 JSON 输出时返回 null
+ */
+function buildResponseFormatPrompt(responseFormat: any): string | null {
+  const type = getResponseFormatType(responseFormat);
+  if (!type) return null;
+
+  const lines = [
+    '# 输出格式',
+    '你的回复必须是一个合法的 JSON，不要使用 Markdown 代码块，也不要在 JSON 前后添加任何解释文字。'
+  ];
+  const jsonSchema = responseFormat.json_schema;
+  if (type === 'json_schema' && jsonSchema?.schema) {
+    if (jsonSchema.name) lines.push(`JSON 名称：${jsonSchema.name}`);
+    if (jsonSchema.description) lines.push(jsonSchema.description);
+    lines.push(
+      'JSON 必须严格符合以下 JSON Schema：',
+      JSON.stringify(jsonSchema.schema)
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 构建 JSON 校验失败后的纠正提示词
+ * @param errors 校验错误列表
+ * @returns 纠正提示词
+ */
+function buildJsonCorrectionPrompt(errors: string[]): string {
+  return [
+    '你上一条回复不符合要求的 JSON 格式，错误如下：',
+    ...errors.map(error => `- ${error}`),
+    '请只输出修正后的 JSON，不要包含任何其他文字。'
+  ].join('\n');
+}
+
+/**
+ * 拆分 think_tags 输出模式下内联在回答前的 <think>...</think> 思考内容
+ * @param text 模型输出
+ * @returns 思考部分（含标签，没有时为空字符串）和其余的回答内容
+ */
+function splitThinkTags(text: string): { thinking: string; answer: string } {
+  const match = text.match(/^\s*<think>[\s\S]*?(?:<\/think>\s*|$)/);
+  if (!match) return { thinking: '', answer: text };
+  return { thinking: match[0], answer: text.slice(match[0].length) };
+}
+
+/**
+ * 去除模型输出中的思考内容、Markdown 代码围栏和 JSON 前后的多余文字
+ * @param text 模型输出
+ * @returns 提取出的 JSON 文本
+ */
+function stripJsonCodeFence(text: string): string {
+  // 先去除内联的思考内容，避免从推理文本中截取到 { 或 [
+  let result = splitThinkTags(text).answer.trim();
+  const fenced = result.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  if (fenced) {
+    result = fenced[1].trim();
+  }
+
+  // 仍有多余文字时，截取第一个 { 或 [ 到最后一个 } 或 ] 之间的内容
+  if (!/^[[{]/.test(result)) {
+    const start = result.search(/[[{]/);
+    const end = Math.max(result.lastIndexOf('}'), result.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      result = result.slice(start, end + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * 使用 JSON Schema 校验数据（支持常用关键字的精简实现）
+ *
+ * 支持：type、enum、const、properties、required、additionalProperties、
+ * items、min/maxItems、min/maxLength、minimum/maximum、anyOf/oneOf/allOf、
+ * 以及指向 #/$defs 或 #/definitions 的本地 $ref
+ *
+ * @param value 待校验的数据
+ * @param schema JSON Schema
+ * @param root 根 Schema（用于解析 $ref）
+ * @param path 当前数据路径（用于错误信息）
+ * @returns 错误信息列表，为空表示校验通过
+ */
+function validateJsonSchema(
+  value: any,
+  schema: any,
+  root: any = schema,
+  path = '$'
+): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+
+  // 解析本地 $ref
+  if (typeof schema.$ref === 'string' && schema.$ref.startsWith('#/')) {
+    const target = schema.$ref
+      .slice(2)
+      .split('/')
+      .reduce((node: any, key: string) => node?.[key], root);
+    return validateJsonSchema(value, target, root, path);
+  }
+
+  const errors: string[] = [];
+
+  // 类型校验
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    const actual =
+      value === null
+        ? 'null'
+        : Array.isArray(value)
+        ? 'array'
+        : Number.isInteger(value)
+        ? 'integer'
+        : typeof value;
+    const matched = types.some(
+      type => type === actual || (type === 'number' && actual === 'integer')
+    );
+    if (!matched) {
+      return [`${path} 的类型应为 ${types.join(' | ')}，实际为 ${actual}`];
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some(
+      (item: any) => JSON.stringify(item) === JSON.stringify(value)
+    )
+  ) {
+    errors.push(`${path} 必须是以下值之一：${JSON.stringify(schema.enum)}`);
+  }
+  if (
+    'const' in schema &&
+    JSON.stringify(schema.const) !== JSON.stringify(value)
+  ) {
+    errors.push(`${path} 必须等于 ${JSON.stringify(schema.const)}`);
+  }
+
+  // 组合关键字
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) {
+      errors.push(...validateJsonSchema(value, sub, root, path));
+    }
+  }
+  for (const key of ['anyOf', 'oneOf']) {
+    if (Array.isArray(schema[key])) {
+      const matched = schema[key].some(
+        (sub: any) => validateJsonSchema(value, sub, root, path).length === 0
+      );
+      if (!matched) errors.push(`${path} 不满足 ${key} 中的任何一个 Schema`);
+    }
+  }
+
+  // 字符串和数值约束
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} 的长度不能小于 ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} 的长度不能大于 ${schema.maxLength}`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} 不能小于 ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} 不能大于 ${schema.maximum}`);
+    }
+  }
+
+  // 数组约束
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} 至少需要 ${schema.minItems} 个元素`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} 最多只能有 ${schema.maxItems} 个元素`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, i) => {
+        errors.push(
+          ...validateJsonSchema(item, schema.items, root, `${path}[${i}]`)
+        );
+      });
+    }
+  }
+
+  // 对象约束
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push(`${path} 缺少必需字段 "${key}"`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (key in properties) {
+        errors.push(
+          ...validateJsonSchema(child, properties[key], root, `${path}.${key}`)
+        );
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path} 不允许包含额外字段 "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(
+          ...validateJsonSchema(
+            child,
+            schema.additionalProperties,
+            root,
+            `${path}.${key}`
+          )
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 按 response_format 检查模型输出
+ * @param content 模型输出的回答内容
+ * @param responseFormat OpenAI 格式的 response_format
+ * @returns 是否通过、去除代码围栏后的内容以及错误信息
+ */
+function checkJsonOutput(
+  content: string,
+  responseFormat: any
+): { valid: boolean; content: string; errors: string[] } {
+  const json = stripJsonCodeFence(content);
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return {
+      valid: false,
+      content: json,
+      errors: [`无法解析为 JSON：${(e as Error).message}`]
+    };
+  }
+
+  const errors: string[] = [];
+  const type = getResponseFormatType(responseFormat);
+  if (
+    type === 'json_object' &&
+    (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed))
+  ) {
+    errors.push('输出必须是一个 JSON 对象');
+  }
+  const schema = responseFormat?.json_schema?.schema;
+  if (type === 'json_schema' && schema) {
+    errors.push(...validateJsonSchema(parsed, schema));
+  }
+
+  return { valid: errors.length === 0, content: json, errors };
+}
+
+/**
+ * 创建 Qwen SSE 解析流，将上游字节流解析为 Qwen 数据块对象
+ *
+ * 流式与非流式响应共用此解析器：
+ * 1. 按 SSE 格式（双换行符）切分数据
+ * 2. 跳过非数据行和 [DONE] 标记
+ * 3. 输出解析后的 JSON 对象
+ *
+ * @returns TransformStream，输入为字节流，输出为 Qwen 数据块对象
+ */
+function createQwenSseParser(): TransformStream<Uint8Array, any> {
+  const decoder = new TextDecoder(); // 解码器，将字节转换为文本
+  let buffer = ''; // 缓冲区，存储不完整的数据行
+
+  // 解析单个 SSE 事件
+  const parseEvent = (
+    event: string,
+    controller: TransformStreamDefaultController<any>
+  ) => {
+    const line = event.trim();
+    if (!line.startsWith('data:')) return; // 跳过非数据行
+    const data = line.substring(5).trim();
+    if (!data || data === '[DONE]') return;
+
+    try {
+      controller.enqueue(JSON.parse(data));
+    } catch (e) {
+      console.error('解析 Qwen 流数据块时出错：', e);
+    }
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || ''; // 保留最后一个不完整的事件
+      for (const event of events) {
+        parseEvent(event, controller);
+      }
+    },
+    flush(controller) {
+      // 处理流结束时残留的数据
+      buffer += decoder.decode();
+      if (buffer.trim()) {
+        parseEvent(buffer, controller);
+      }
+    }
+  });
+}
+
+// --- 用量统计 ---
+
+/**
+ * OpenAI 格式的用量数据
+ */
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * 本地估算文本的令牌数
+ *
+ * 不依赖具体分词器的近似算法：
+ * - 中日韩字符及全角符号按每字 1 个令牌计算
+ * - 其他字符按每 4 个字符 1 个令牌计算
+ *
+ * @param text 待估算的文本
+ * @returns 估算的令牌数
+ */
+function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjkCount = (
+    text.match(
+      /[\u3000-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g
+    ) || []
+  ).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+/**
+ * 本地估算请求的提示词令牌数（消息、工具定义和 JSON Schema）
+ * @param requestBody OpenAI 格式的请求体
+ * @returns 估算的提示词令牌数
+ */
+function estimateRequestTokens(requestBody: any): number {
+  let tokens = 0;
+  for (const message of requestBody?.messages || []) {
+    tokens += 4; // 每条消息的角色和格式开销
+    if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        // 图像按固定开销估算
+        tokens += part?.type === 'text' ? estimateTokens(part.text) : 85;
+      }
+    } else {
+      tokens += estimateTokens(extractTextContent(message.content));
+    }
+    if (message.tool_calls) {
+      tokens += estimateTokens(JSON.stringify(message.tool_calls));
+    }
+  }
+  if (Array.isArray(requestBody?.tools)) {
+    tokens += estimateTokens(JSON.stringify(requestBody.tools));
+  }
+  if (requestBody?.response_format?.json_schema) {
+    tokens += estimateTokens(
+      JSON.stringify(requestBody.response_format.json_schema)
+    );
+  }
+  return tokens + 3; // 回复的起始开销
+}
+
+/**
+ * 将 Qwen 的 usage 字段转换为 OpenAI 格式
+ * Qwen 使用 input_tokens/output_tokens，同时兼容 OpenAI 风格的字段名
+ *
+ * @param usage Qwen 数据块中的 usage 对象
+ * @returns OpenAI 格式的 usage 对象，上游未返回用量时返回 null
+ */
+function normalizeQwenUsage(usage: any): OpenAIUsage | null {
+  if (!usage || typeof usage !== 'object') return null;
+  const promptTokens = usage.input_tokens ?? usage.prompt_tokens;
+  const completionTokens = usage.output_tokens ?? usage.completion_tokens;
+  if (promptTokens === undefined && completionTokens === undefined) {
+    return null;
+  }
+  return {
+    prompt_tokens: promptTokens || 0,
+    completion_tokens: completionTokens || 0,
+    total_tokens:
+      usage.total_tokens ?? (promptTokens || 0) + (completionTokens || 0)
+  };
+}
+
+/**
+ * 思考内容的输出格式
+ * - reasoning_content: 通过独立的 `reasoning_content` 字段输出（DeepSeek 风格）
+ * - think_tags: 旧版行为，以 <think>...</think> 标签内联在 content 中
+ */
+type ReasoningFormat = 'reasoning_content' | 'think_tags';
+
+/**
+ * 解析请求使用的思考内容输出格式
+ * 请求体中的 `reasoning_format` 优先于 REASONING_FORMAT 环境变量
+ *
+ * @param requestBody OpenAI 格式的请求体
+ * @returns 思考内容的输出格式
+ */
+function resolveReasoningFormat(requestBody: any): ReasoningFormat {
+  const format = requestBody?.reasoning_format || config.reasoningFormat;
+  return format === 'think_tags' ? 'think_tags' : 'reasoning_content';
+}
+
+/**
+ * 创建思考/回答阶段的状态机（每个响应流独立一个实例）
+ *
+ * 根据 Qwen 数据块的 phase 字段在 idle → thinking → answering 之间切换，
+ * 并按输出格式将增量拆分为回答内容和思考内容。
+ * think_tags 模式下，在进入和离开思考阶段时补充开闭标签。
+ *
+ * @param format 思考内容的输出格式
+ * @returns 包含 push（处理增量）和 finish（流结束时收尾）方法的对象
+ */
+function createReasoningStateMachine(format: ReasoningFormat) {
+  let state: 'idle' | 'thinking' | 'answering' = 'idle';
+
+  return {
+    /**
+     * 处理单个增量
+     * @param phase Qwen 数据块的阶段（'think'、'answer' 等）
+     * @param text 增量文本
+     * @returns 拆分后的回答内容和思考内容
+     */
+    push(
+      phase: string | undefined,
+      text: string
+    ): { content: string; reasoning: string } {
+      if (phase === 'think') {
+        const opening =
+          format === 'think_tags' && state !== 'thinking' ? '<think>\n' : '';
+        state = 'thinking';
+        return format === 'think_tags'
+          ? { content: opening + text, reasoning: '' }
+          : { content: '', reasoning: text };
+      }
+
+      // 离开思考阶段时闭合标签
+      const closing =
+        format === 'think_tags' && state === 'thinking' ? '\n</think>\n' : '';
+      state = 'answering';
+      return { content: closing + text, reasoning: '' };
+    },
+
+    /**
+     * 流结束时调用，返回需要补充的收尾文本（未闭合的 </think> 标签）
+     */
+    finish(): string {
+      if (format === 'think_tags' && state === 'thinking') {
+        state = 'answering';
+        return '\n</think>\n';
+      }
+      return '';
+    }
+  };
+}
+
+/**
+ * 响应输出选项（由请求体解析得到，流式与非流式响应共用）
+ */
+interface QwenOutputOptions {
+  reasoningFormat: ReasoningFormat; // 思考内容的输出格式
+  parseToolCalls: boolean; // 是否从回答中解析工具调用块
+  includeUsage: boolean; // 流式响应是否在末尾发送用量数据块
+  promptTokens: number; // 本地估算的提示词令牌数（上游未返回用量时使用）
+  searchReferences: boolean; // 是否在回答末尾追加搜索参考资料列表
+}
+
+/**
+ * 根据请求体解析响应输出选项
+ * @param requestBody OpenAI 格式的请求体
+ * @returns 响应输出选项
+ */
+function resolveOutputOptions(requestBody: any): QwenOutputOptions {
+  return {
+    reasoningFormat: resolveReasoningFormat(requestBody),
+    parseToolCalls:
+      Array.isArray(requestBody?.tools) &&
+      requestBody.tools.length > 0 &&
+      requestBody.tool_choice !== 'none',
+    includeUsage: requestBody?.stream_options?.include_usage === true,
+    promptTokens: estimateRequestTokens(requestBody),
+    searchReferences: config.searchReferences
+  };
+}
+
+/**
+ * 搜索来源（解析自 -search 模型的 web_search 阶段）
+ */
+interface SearchSource {
+  url: string; // 来源链接
+  title: string; // 来源标题
+}
+
+/**
+ * 从 Qwen 增量中提取搜索来源
+ * 搜索模型在 web_search 阶段通过 `extra.web_search_info` 返回检索到的网页
+ *
+ * @param delta Qwen 数据块的 delta 字段
+ * @returns 搜索来源列表（无来源时为空数组）
+ */
+function extractSearchSources(delta: any): SearchSource[] {
+  const info = delta?.extra?.web_search_info;
+  if (!Array.isArray(info)) return [];
+  return info
+    .filter((item: any) => typeof item?.url === 'string' && item.url)
+    .map((item: any) => ({
+      url: item.url,
+      title: String(item.title || item.hostname || item.url)
+    }));
+}
+
+/**
+ * 将搜索来源转换为 OpenAI 的 url_citation 注释
+ *
+ * 注释范围指向回答中的 `[[n]]` 引用标记，未被引用的来源不生成注释。
+ * 索引基于最终返回给客户端的内容计算，内容被替换或加上前缀后需重新生成。
+ *
+ * @param sources 搜索来源列表
+ * @param content 最终的回答内容
+ * @returns OpenAI 格式的 annotations 数组
+ */
+function buildUrlCitations(sources: SearchSource[], content: string) {
+  const citations: any[] = [];
+  const toCitation = (source: SearchSource, start: number, end: number) => ({
+    type: 'url_citation',
+    url_citation: {
+      url: source.url,
+      title: source.title,
+      start_index: start,
+      end_index: end
+    }
+  });
+
+  for (const match of content.matchAll(/\[\[(\d+)\]\]/g)) {
+    const index = Number(match[1]) - 1;
+    const source = sources[index];
+    if (!source) continue;
+    citations.push(
+      toCitation(source, match.index!, match.index! + match[0].length)
+    );
+  }
+  return citations;
+}
+
+/**
+ * 将搜索来源格式化为 Markdown 参考资料列表（追加在回答末尾）
+ * @param sources 搜索来源列表
+ * @returns 参考资料文本
+ */
+function formatSearchReferences(sources: SearchSource[]): string {
+  const lines = sources.map(
+    (source, index) =>
+      `${index + 1}. [${source.title.replace(/[[\]]/g, '\\$&')}](${source.url})`
+  );
+  return `\n\n---\n**参考资料**\n${lines.join('\n')}\n`;
+}
+
+/**
+ * 单次处理得到的标准化增量
+ */
+interface QwenDelta {
+  content: string; // 回答内容
+  reasoning: string; // 思考内容（reasoning_content 模式）
+  toolCalls: any[]; // 解析出的 OpenAI 格式工具调用
+}
+
+/**
+ * 创建 Qwen 数据块处理器（每个响应流独立一个实例）
+ *
+ * 各种输出格式共用的解析核心：
+ * 1. 通过思考状态机拆分思考内容与回答内容
+ * 2. 按需从回答内容中解析工具调用块
+ * 3. 记录模型名称、结束原因和用量（上游未返回用量时本地估算）
+ * 4. 收集搜索模型返回的来源，供生成 url_citation 注释
+ *
+ * @param options 响应输出选项
+ * @returns 包含 push、finish 方法和结果状态的处理器
+ */
+function createQwenDeltaProcessor(options: QwenOutputOptions) {
+  const reasoningState = createReasoningStateMachine(options.reasoningFormat);
+  const toolParser = options.parseToolCalls ? createToolCallParser() : null;
+  let model = 'qwen'; // 最近一次上游返回的模型名称
+  let finishReason: string | null = null; // 上游结束原因
+  let usage: any = null; // 上游用量
+  let hasToolCalls = false; // 是否已解析出工具调用
+  let completionText = ''; // 已输出的全部文本，用于估算补全令牌数
+  let answerText = ''; // 已输出的回答内容，用于计算注释位置
+  const sources: SearchSource[] = []; // 搜索来源（按 URL 去重）
+
+  // 记录已输出的文本
+  const track = (delta: QwenDelta): QwenDelta => {
+    completionText += delta.reasoning + delta.content;
+    answerText += delta.content;
+    for (const call of delta.toolCalls) {
+      completionText += call.function.name + call.function.arguments;
+    }
+    return delta;
+  };
+
+  // 将回答文本送入工具调用解析器
+  const parseAnswer = (text: string): QwenDelta => {
+    if (!toolParser) return { content: text, reasoning: '', toolCalls: [] };
+    const parsed = toolParser.push(text);
+    if (parsed.toolCalls.length > 0) hasToolCalls = true;
+    return {
+      // 工具调用之后的空白文本不再输出
+      content: hasToolCalls && !parsed.text.trim() ? '' : parsed.text,
+      reasoning: '',
+      toolCalls: parsed.toolCalls
+    };
+  };
+
+  return {
+    /**
+     * 处理单个 Qwen 数据块
+     * @param qwenChunk createQwenSseParser 输出的数据块
+     * @returns 标准化增量
+     */
+    push(qwenChunk: any): QwenDelta {
+      const empty: QwenDelta = { content: '', reasoning: '', toolCalls: [] };
+      if (qwenChunk.model) model = qwenChunk.model;
+      if (qwenChunk.usage) usage = qwenChunk.usage;
+      if (!qwenChunk.choices || qwenChunk.choices.length === 0) return empty;
+
+      const choice = qwenChunk.choices[0];
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+      const delta = choice.delta;
+      if (!delta) return empty;
+
+      for (const source of extractSearchSources(delta)) {
+        if (!sources.some(item => item.url === source.url)) {
+          sources.push(source);
+        }
+      }
+      // 搜索阶段只携带来源信息，不输出内容
+      if (delta.phase === 'web_search') return empty;
+
+      const parts = reasoningState.push(delta.phase, delta.content || '');
+      // 思考阶段的内容不参与工具调用解析
+      if (delta.phase === 'think') {
+        return track({ ...parts, toolCalls: [] });
+      }
+      return track(parseAnswer(parts.content));
+    },
+
+    /**
+     * 流结束时调用，输出未闭合的思考标签、工具解析器中剩余的内容
+     * 以及按需追加的搜索参考资料列表
+     */
+    finish(): QwenDelta {
+      const closing = reasoningState.finish();
+      let result = parseAnswer(closing);
+      if (toolParser) {
+        const rest = toolParser.flush();
+        if (rest.toolCalls.length > 0) hasToolCalls = true;
+        result = {
+          content:
+            result.content +
+            (hasToolCalls && !rest.text.trim() ? '' : rest.text),
+          reasoning: '',
+          toolCalls: [...result.toolCalls, ...rest.toolCalls]
+        };
+      }
+      if (options.searchReferences && sources.length > 0 && !hasToolCalls) {
+        result.content += formatSearchReferences(sources);
+      }
+      return track(result);
+    },
+
+    get model(): string {
+      return model;
+    },
+
+    // 搜索来源（按 URL 去重，非搜索模型为空数组）
+    get sources(): SearchSource[] {
+      return sources;
+    },
+
+    // 搜索来源对应的 OpenAI url_citation 注释（索引基于已输出的回答内容）
+    get annotations(): any[] {
+      return buildUrlCitations(sources, answerText);
+    },
+
+    // 优先使用上游用量，缺失时使用本地估算
+    get usage(): OpenAIUsage {
+      return (
+        normalizeQwenUsage(usage) || {
+          prompt_tokens: options.promptTokens,
+          completion_tokens: estimateTokens(completionText),
+          total_tokens: options.promptTokens + estimateTokens(completionText)
+        }
+      );
+    },
+
+    // 解析出工具调用时按 OpenAI 规范返回 tool_calls
+    get finishReason(): string {
+      return hasToolCalls ? 'tool_calls' : finishReason || 'stop';
+    }
+  };
+}
+
+/**
+ * 创建转换流，将解析后的 Qwen 数据块转换为 OpenAI 兼容的 SSE 流
+ *
+ * 此函数模拟 `chat.js` 中 `handleStreamResponse` 的逻辑
+ *
+ * 转换过程：
+ * 1. 接收 createQwenSseParser 输出的 Qwen 数据块
+ * 2. 通过数据块处理器拆分思考内容、回答内容和工具调用
+ * 3. 转换为 OpenAI 标准的 chunk 格式
+ * 4. 流结束时发送带有 finish_reason 的最终数据块
+ * 5. 设置 include_usage 时，在 [DONE] 前发送仅包含用量的数据块
+ *
+ * @param options 响应输出选项
+ * @returns TransformStream，用于处理从 Qwen 到 OpenAI 格式的流转换
+ */
+function createQwenToOpenAIStreamTransformer(
+  options: QwenOutputOptions
+): TransformStream<any, Uint8Array> {
+  const encoder = new TextEncoder(); // 编码器，将文本转换为字节
+  const messageId = crypto.randomUUID(); // 生成唯一的消息 ID
+  const processor = createQwenDeltaProcessor(options);
+
+  // 构建 OpenAI 标准格式的数据块并编码为 SSE
+  const encodeChunk = (delta: any, finishReason: string | null) =>
+    encoder.encode(
+      `data: ${JSON.stringify({
+        id: `chatcmpl-${messageId}`, // OpenAI 格式的 ID
+        object: 'chat.completion.chunk', // 对象类型
+        created: Math.floor(Date.now() / 1000), // Unix 时间戳
+        model: processor.model, // 模型名称
+        choices: [
+          {
+            index: 0, // 选择索引
+            delta: delta, // 内容增量
+            finish_reason: finishReason // 结束原因
+          }
+        ]
+      })}\n\n`
+    );
+
+  // 构建 OpenAI 规范的用量数据块（choices 为空数组）
+  const encodeUsageChunk = (usage: OpenAIUsage) =>
+    encoder.encode(
+      `data: ${JSON.stringify({
+        id: `chatcmpl-${messageId}`,
+        object: 'chat.completion.chunk',
+        created: Math.floor(Date.now() / 1000),
+        model: processor.model,
+        choices: [],
+        usage
+      })}\n\n`
+    );
+
+  // 发送增量中的思考内容、回答内容和工具调用
+  const enqueueDelta = (
+    delta: QwenDelta,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (delta.reasoning) {
+      controller.enqueue(
+        encodeChunk({ reasoning_content: delta.reasoning }, null)
+      );
+    }
+    if (delta.content) {
+      controller.enqueue(encodeChunk({ content: delta.content }, null));
+    }
+    if (delta.toolCalls.length > 0) {
+      controller.enqueue(encodeChunk({ tool_calls: delta.toolCalls }, null));
+    }
+  };
+
+  return new TransformStream({
+    // 转换函数：处理每个 Qwen 数据块
+    transform(qwenChunk, controller) {
+      enqueueDelta(processor.push(qwenChunk), controller);
+    },
+    // 刷新函数：处理流结束
+    flush(controller) {
+      enqueueDelta(processor.finish(), controller);
+      // 搜索来源在回答结束后以 annotations 增量发送
+      const annotations = processor.annotations;
+      if (annotations.length > 0) {
+        controller.enqueue(encodeChunk({ annotations }, null));
+      }
+      controller.enqueue(encodeChunk({}, processor.finishReason));
+      // 按 stream_options.include_usage 发送仅包含用量的数据块
+      if (options.includeUsage) {
+        controller.enqueue(encodeUsageChunk(processor.usage));
+      }
+      // 发送最终的完成标记
+      controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
+    }
+  });
+}
+
+/**
+ * 完整读取 Qwen 响应流并聚合为单个结果（用于非流式响应）
+ *
+ * @param stream 上游 Qwen 响应的字节流
+ * @param options 响应输出选项
+ * @returns 聚合后的回答内容、思考内容、工具调用、搜索来源、结束原因、模型名称和用量
+ */
+async function collectQwenCompletion(
+  stream: ReadableStream<Uint8Array>,
+  options: QwenOutputOptions
+) {
+  const processor = createQwenDeltaProcessor(options);
+  let content = ''; // 回答内容
+  let reasoning = ''; // 思考内容
+  const toolCalls: any[] = []; // 工具调用
+
+  const append = (delta: QwenDelta) => {
+    content += delta.content;
+    reasoning += delta.reasoning;
+    toolCalls.push(...delta.toolCalls);
+  };
+
+  const reader = stream.pipeThrough(createQwenSseParser()).getReader();
+  while (true) {
+    const { done, value: qwenChunk } = await reader.read();
+    if (done) break;
+    append(processor.push(qwenChunk));
+  }
+  append(processor.finish());
+
+  return {
+    content,
+    reasoning,
+    toolCalls,
+    sources: processor.sources,
+    finishReason: processor.finishReason,
+    model: processor.model,
+    usage: processor.usage
+  };
+}
+
+/**
+ * 将聚合后的 Qwen 结果构建为 OpenAI `chat.completion` 响应对象
+ *
+ * @param result collectQwenCompletion 的返回值
+ * @returns OpenAI 标准格式的非流式响应
+ */
+function buildOpenAIChatCompletion(
+  result: Awaited<ReturnType<typeof collectQwenCompletion>>
+) {
+  const message: Record<string, any> = {
+    role: 'assistant',
+    content: result.content
+  };
+  if (result.reasoning) {
+    message.reasoning_content = result.reasoning;
+  }
+  if (result.toolCalls.length > 0) {
+    // 非流式响应中的工具调用不包含 index 字段
+    message.tool_calls = result.toolCalls.map(
+      ({ index: _index, ...call }) => call
+    );
+    message.content = result.content.trim() || null;
+  }
+  // 注释索引基于最终的回答内容（JSON 模式替换或工具调用裁剪后的内容）
+  const annotations = buildUrlCitations(result.sources, message.content || '');
+  if (annotations.length > 0) {
+    message.annotations = annotations;
+  }
+
+  return {
+    id: `chatcmpl-${crypto.randomUUID()}`, // OpenAI 格式的 ID
+    object: 'chat.completion', // 对象类型
+    created: Math.floor(Date.now() / 1000), // Unix 时间戳
+    model: result.model, // 模型名称
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: result.finishReason
+      }
+    ],
+    usage: result.usage
+  };
+}
+
+/**
+ * 将完整的 chat.completion 响应转换为 OpenAI SSE 流
+ * 用于需要先完整读取再返回的场景（如 JSON 模式下的流式请求）
+ *
+ * @param completion buildOpenAIChatCompletion 的返回值
+ * @param includeUsage 是否在末尾发送用量数据块
+ * @returns OpenAI 兼容的 SSE 字节流
+ */
+function createOpenAIStreamFromCompletion(
+  completion: ReturnType<typeof buildOpenAIChatCompletion>,
+  includeUsage = false
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const choice = completion.choices[0];
+  const message = choice.message;
+
+  // 按思考内容、回答内容、工具调用、搜索注释的顺序生成增量
+  const deltas: any[] = [{ role: 'assistant' }];
+  if (message.reasoning_content) {
+    deltas.push({ reasoning_content: message.reasoning_content });
+  }
+  if (message.content) {
+    deltas.push({ content: message.content });
+  }
+  if (message.tool_calls) {
+    deltas.push({
+      tool_calls: message.tool_calls.map((call: any, index: number) => ({
+        index,
+        ...call
+      }))
+    });
+  }
+  if (message.annotations) {
+    deltas.push({ annotations: message.annotations });
+  }
+
+  const encodeChunk = (delta: any, finishReason: string | null) =>
+    encoder.encode(
+      `data: ${JSON.stringify({
+        id: completion.id,
+        object: 'chat.completion.chunk',
+        created: completion.created,
+        model: completion.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }]
+      })}\n\n`
+    );
+
+  return new ReadableStream({
+    start(controller) {
+      for (const delta of deltas) {
+        controller.enqueue(encodeChunk(delta, null));
+      }
+      controller.enqueue(encodeChunk({}, choice.finish_reason));
+      if (includeUsage) {
+        controller.enqueue(
+          encoder.encode(
+            `data: ${JSON.stringify({
+              id: completion.id,
+              object: 'chat.completion.chunk',
+              created: completion.created,
+              model: completion.model,
+              choices: [],
+              usage: completion.usage
+            })}\n\n`
+          )
+        );
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    }
+  });
+}
+
+// --- Anthropic Messages API 兼容 ---
+
+/**
+ * 将 Anthropic 内容块中的图像转换为 OpenAI image_url 内容部分
+ * @param block Anthropic image 内容块
+ * @returns OpenAI image_url 内容部分，无法识别时返回 null
+ */
+function anthropicImageToOpenAIPart(block: any): any | null {
+  const source = block?.source;
+  if (source?.type === 'base64' && source.data) {
+    return {
+      type: 'image_url',
+      image_url: {
+        url: `data:${source.media_type || 'image/png'};base64,${source.data}`
+      }
+    };
+  }
+  if (source?.type === 'url' && source.url) {
+    return { type: 'image_url', image_url: { url: source.url } };
+  }
+  return null;
+}
+
+/**
+ * 将 Anthropic Messages 请求转换为 OpenAI 格式的聊天请求
+ *
+ * 转换后的请求与 /v1/chat/completions 走同一条聊天管道，最终由
+ * transformOpenAIRequestToQwen 生成相同结构的 Qwen 请求体：
+ * 1. system（字符串或文本块）转换为系统消息
+ * 2. text/image 内容块转换为 OpenAI 内容部分
+ * 3. tool_use/tool_result 转换为 tool_calls 和 tool 消息
+ * 4. 历史中的 thinking 块被丢弃，请求中的 thinking 配置映射为 -thinking 模型
+ *
+ * @param anthropicRequest Anthropic Messages 格式的请求体
+ * @returns OpenAI 格式的请求体
+ */
+function transformAnthropicRequestToOpenAI(anthropicRequest: any): any {
+  const messages: any[] = [];
+
+  // 系统提示词
+  if (anthropicRequest.system) {
+    const systemText = Array.isArray(anthropicRequest.system)
+      ? extractTextContent(anthropicRequest.system)
+      : String(anthropicRequest.system);
+    if (systemText) messages.push({ role: 'system', content: systemText });
+  }
+
+  for (const message of anthropicRequest.messages || []) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const parts: any[] = [];
+    const toolCalls: any[] = [];
+    const toolResults: any[] = [];
+
+    for (const block of message.content || []) {
+      if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text });
+      } else if (block.type === 'image') {
+        const imagePart = anthropicImageToOpenAIPart(block);
+        if (imagePart) parts.push(imagePart);
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          type: 'function',
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input ?? {})
+          }
+        });
+      } else if (block.type === 'tool_result') {
+        const content = Array.isArray(block.content)
+          ? extractTextContent(block.content)
+          : String(block.content ?? '');
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `[工具执行出错] ${content}` : content
+        });
+      }
+      // thinking / redacted_thinking 块仅用于客户端回放，不发送到上游
+    }
+
+    // 工具结果必须紧跟在对应的 assistant 消息之后
+    messages.push(...toolResults);
+
+    const hasImage = parts.some(part => part.type === 'image_url');
+    const content = hasImage ? parts : extractTextContent(parts);
+    if (message.role === 'assistant' && toolCalls.length > 0) {
+      messages.push({
+        role: 'assistant',
+        content: content || null,
+        tool_calls: toolCalls
+      });
+    } else if (parts.length > 0) {
+      messages.push({ role: message.role, content });
+    }
+  }
+
+  // 思考配置映射为 -thinking 模型变体
+  let model = anthropicRequest.model || 'qwen3-max';
+  if (
+    anthropicRequest.thinking?.type === 'enabled' &&
+    !model.includes('-thinking')
+  ) {
+    model = `${model}-thinking`;
+  }
+
+  const openAIRequest: any = {
+    model,
+    messages,
+    stream: anthropicRequest.stream === true,
+    reasoning_format: 'reasoning_content'
+  };
+
+  // 工具定义和 tool_choice
+  if (Array.isArray(anthropicRequest.tools)) {
+    openAIRequest.tools = anthropicRequest.tools.map((tool: any) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description || '',
+        parameters: tool.input_schema || { type: 'object' }
+      }
+    }));
+  }
+  const toolChoice = anthropicRequest.tool_choice;
+  if (toolChoice?.type === 'any') {
+    openAIRequest.tool_choice = 'required';
+  } else if (toolChoice?.type === 'tool' && toolChoice.name) {
+    openAIRequest.tool_choice = {
+      type: 'function',
+      function: { name: toolChoice.name }
+    };
+  } else if (toolChoice?.type === 'none') {
+    openAIRequest.tool_choice = 'none';
+  }
+
+  return openAIRequest;
+}
+
+/**
+ * 将 OpenAI 结束原因映射为 Anthropic stop_reason
+ * @param finishReason OpenAI 格式的结束原因
+ * @returns Anthropic 格式的 stop_reason
+ */
+function toAnthropicStopReason(finishReason: string): string {
+  if (finishReason === 'tool_calls') return 'tool_use';
+  if (finishReason === 'length') return 'max_tokens';
+  return 'end_turn';
+}
+
+/**
+ * 将 OpenAI 工具调用转换为 Anthropic tool_use 内容块
+ * @param toolCall OpenAI 格式的工具调用
+ * @returns Anthropic tool_use 内容块
+ */
+function toAnthropicToolUse(toolCall: any): any {
+  let input: any = {};
+  try {
+    input = JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    input = {};
+  }
+  return {
+    type: 'tool_use',
+    id: toolCall.id.replace(/^call_/, 'toolu_'),
+    name: toolCall.function.name,
+    input
+  };
+}
+
+/**
+ * 将聚合后的 Qwen 结果构建为 Anthropic Messages 响应对象
+ *
+ * @param result collectQwenCompletion 的返回值
+ * @returns Anthropic 格式的非流式响应
+ */
+function buildAnthropicMessage(
+  result: Awaited<ReturnType<typeof collectQwenCompletion>>
+) {
+  const content: any[] = [];
+  if (result.reasoning) {
+    content.push({
+      type: 'thinking',
+      thinking: result.reasoning,
+      signature: ''
+    });
+  }
+  if (result.content.trim() || result.toolCalls.length === 0) {
+    content.push({ type: 'text', text: result.content });
+  }
+  content.push(...result.toolCalls.map(toAnthropicToolUse));
+
+  return {
+    id: `msg_${crypto.randomUUID().replace(/-/g, '')}`,
+    type: 'message',
+    role: 'assistant',
+    model: result.model,
+    content,
+    stop_reason: toAnthropicStopReason(result.finishReason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: result.usage.prompt_tokens,
+      output_tokens: result.usage.completion_tokens
+    }
+  };
+}
+
+/**
+ * 创建转换流，将解析后的 Qwen 数据块转换为 Anthropic Messages SSE 流
+ *
+ * 事件顺序：
+ * message_start → (content_block_start → content_block_delta* → content_block_stop)*
+ * → message_delta → message_stop
+ *
+ * 思考内容、回答文本和工具调用分别对应 thinking、text、tool_use 内容块，
+ * 内容类型切换时关闭当前块并开启新块。
+ *
+ * @param options 响应输出选项
+ * @param requestModel 客户端请求的模型名称
+ * @returns TransformStream，用于处理从 Qwen 到 Anthropic 格式的流转换
+ */
+function createQwenToAnthropicStreamTransformer(
+  options: QwenOutputOptions,
+  requestModel: string
+): TransformStream<any, Uint8Array> {
+  const encoder = new TextEncoder();
+  const processor = createQwenDeltaProcessor(options);
+  const messageId = `msg_${crypto.randomUUID().replace(/-/g, '')}`;
+  let started = false; // 是否已发送 message_start
+  let blockIndex = -1; // 当前内容块序号
+  let blockType: 'thinking' | 'text' | null = null; // 当前打开的内容块类型
+
+  // 编码单个 Anthropic SSE 事件
+  const encodeEvent = (event: string, data: any) =>
+    encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const ensureStarted = (
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (started) return;
+    started = true;
+    controller.enqueue(
+      encodeEvent('message_start', {
+        type: 'message_start',
+        message: {
+          id: messageId,
+          type: 'message',
+          role: 'assistant',
+          model: requestModel,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: options.promptTokens, output_tokens: 0 }
+        }
+      })
+    );
+  };
+
+  const closeBlock = (
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (blockType === null) return;
+    controller.enqueue(
+      encodeEvent('content_block_stop', {
+        type: 'content_block_stop',
+        index: blockIndex
+      })
+    );
+    blockType = null;
+  };
+
+  // 按内容类型写入增量，类型变化时切换内容块
+  const writeText = (
+    type: 'thinking' | 'text',
+    text: string,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (!text) return;
+    if (blockType !== type) {
+      closeBlock(controller);
+      blockIndex++;
+      blockType = type;
+      controller.enqueue(
+        encodeEvent('content_block_start', {
+          type: 'content_block_start',
+          index: blockIndex,
+          content_block:
+            type === 'thinking'
+              ? { type: 'thinking', thinking: '' }
+              : { type: 'text', text: '' }
+        })
+      );
+    }
+    controller.enqueue(
+      encodeEvent('content_block_delta', {
+        type: 'content_block_delta',
+        index: blockIndex,
+        delta:
+          type === 'thinking'
+            ? { type: 'thinking_delta', thinking: text }
+            : { type: 'text_delta', text }
+      })
+    );
+  };
+
+  const writeDelta = (
+    delta: QwenDelta,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    ensureStarted(controller);
+    writeText('thinking', delta.reasoning, controller);
+    writeText('text', delta.content, controller);
+
+    // 每个工具调用作为一个完整的 tool_use 内容块发送
+    for (const toolCall of delta.toolCalls) {
+      closeBlock(controller);
+      blockIndex++;
+      const toolUse = toAnthropicToolUse(toolCall);
+      controller.enqueue(
+        encodeEvent('content_block_start', {
+          type: 'content_block_start',
+          index: blockIndex,
+          content_block: { ...toolUse, input: {} }
+        })
+      );
+      controller.enqueue(
+        encodeEvent('content_block_delta', {
+          type: 'content_block_delta',
+          index: blockIndex,
+          delta: {
+            type: 'input_json_delta',
+            partial_json: JSON.stringify(toolUse.input)
+          }
+        })
+      );
+      controller.enqueue(
+        encodeEvent('content_block_stop', {
+          type: 'content_block_stop',
+          index: blockIndex
+        })
+      );
+    }
+  };
+
+  return new TransformStream({
+    transform(qwenChunk, controller) {
+      writeDelta(processor.push(qwenChunk), controller);
+    },
+    flush(controller) {
+      writeDelta(processor.finish(), controller);
+      closeBlock(controller);
+      controller.enqueue(
+        encodeEvent('message_delta', {
+          type: 'message_delta',
+          delta: {
+            stop_reason: toAnthropicStopReason(processor.finishReason),
+            stop_sequence: null
+          },
+          usage: { output_tokens: processor.usage.completion_tokens }
+        })
+      );
+      controller.enqueue(encodeEvent('message_stop', { type: 'message_stop' }));
+    }
+  });
+}
+
+/**
+ * 将代理内部的错误响应转换为 Anthropic 错误格式
+ * @param status HTTP 状态码
+ * @param body 内部错误响应体
+ * @returns Anthropic 格式的错误响应体
+ */
+function toAnthropicError(status: number, body: any): any {
+  const type =
+    status === 401
+      ? 'authentication_error'
+      : status === 400
+      ? 'invalid_request_error'
+      : status === 429
+      ? 'rate_limit_error'
+      : status === 503
+      ? 'overloaded_error'
+      : 'api_error';
+  const message =
+    typeof body?.error === 'string'
+      ? body.details
+        ? `${body.error}: ${
+            typeof body.details === 'string'
+              ? body.details
+              : JSON.stringify(body.details)
+          }`
+        : body.error
+      : JSON.stringify(body);
+  return { type: 'error', error: { type, message } };
+}
+
+// --- OpenAI Responses API 兼容 ---
+
+/**
+ * 将 Responses API 的内容部分转换为 OpenAI 聊天内容部分
+ * @param content 字符串或 Responses 内容部分数组
+ * @returns 字符串或 OpenAI 聊天内容部分数组
+ */
+function responsesContentToOpenAI(content: any): any {
+  if (!Array.isArray(content)) return content ?? '';
+
+  const parts: any[] = [];
+  for (const part of content) {
+    if (['input_text', 'output_text', 'text'].includes(part?.type)) {
+      parts.push({ type: 'text', text: part.text });
+    } else if (part?.type === 'input_image' && part.image_url) {
+      parts.push({ type: 'image_url', image_url: { url: part.image_url } });
+    } else if (part?.type === 'input_file' && part.file_data) {
+      parts.push({
+        type: 'file',
+        file: { file_data: part.file_data, filename: part.filename }
+      });
+    }
+  }
+  return parts.some(part => part.type === 'image_url' || part.type === 'file')
+    ? parts
+    : extractTextContent(parts);
+}
+
+/**
+ * 将 OpenAI Responses 请求转换为 OpenAI 格式的聊天请求
+ *
+ * 转换内容：
+ * 1. instructions 转换为系统消息，input（字符串或输入项列表）转换为消息数组
+ * 2. function_call / function_call_output 输入项转换为 tool_calls 和 tool 消息
+ * 3. 历史中的 reasoning 输入项被丢弃，reasoning 配置映射为 -thinking 模型
+ * 4. tools、tool_choice 和 text.format 转换为聊天格式
+ *
+ * @param responsesRequest Responses API 格式的请求体
+ * @returns OpenAI 格式的请求体
+ */
+function transformResponsesRequestToOpenAI(responsesRequest: any): any {
+  const messages: any[] = [];
+  if (responsesRequest.instructions) {
+    messages.push({ role: 'system', content: responsesRequest.instructions });
+  }
+
+  const input = responsesRequest.input;
+  if (typeof input === 'string') {
+    messages.push({ role: 'user', content: input });
+  } else if (Array.isArray(input)) {
+    for (const item of input) {
+      if (item.type === 'function_call') {
+        const toolCall = {
+          id: item.call_id,
+          type: 'function',
+          function: { name: item.name, arguments: item.arguments || '{}' }
+        };
+        // 连续的函数调用合并到同一条 assistant 消息中
+        const last = messages[messages.length - 1];
+        if (last?.role === 'assistant' && Array.isArray(last.tool_calls)) {
+          last.tool_calls.push(toolCall);
+        } else {
+          messages.push({
+            role: 'assistant',
+            content: null,
+            tool_calls: [toolCall]
+          });
+        }
+      } else if (item.type === 'function_call_output') {
+        messages.push({
+          role: 'tool',
+          tool_call_id: item.call_id,
+          content:
+            typeof item.output === 'string'
+              ? item.output
+              : JSON.stringify(item.output)
+        });
+      } else if (item.role && (!item.type || item.type === 'message')) {
+        messages.push({
+          role: item.role,
+          content: responsesContentToOpenAI(item.content)
+        });
+      }
+      // reasoning 等其他输入项不发送到上游
+    }
+  }
+
+  // 推理配置映射为 -thinking 模型变体
+  let model = responsesRequest.model || 'qwen3-max';
+  const effort = responsesRequest.reasoning?.effort;
+  if (effort && effort !== 'none' && !model.includes('-thinking')) {
+    model = `${model}-thinking`;
+  }
+
+  const openAIRequest: any = {
+    model,
+    messages,
+    stream: responsesRequest.stream === true,
+    reasoning_format: 'reasoning_content'
+  };
+
+  // 工具定义：Responses 格式的函数定义没有 function 包装层
+  if (Array.isArray(responsesRequest.tools)) {
+    openAIRequest.tools = responsesRequest.tools
+      .filter((tool: any) => tool.type === 'function')
+      .map((tool: any) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description || '',
+          parameters: tool.parameters || { type: 'object' }
+        }
+      }));
+  }
+  const toolChoice = responsesRequest.tool_choice;
+  openAIRequest.tool_choice =
+    toolChoice?.type === 'function' && toolChoice.name
+      ? { type: 'function', function: { name: toolChoice.name } }
+      : toolChoice;
+
+  // 结构化输出
+  const format = responsesRequest.text?.format;
+  if (format?.type === 'json_object') {
+    openAIRequest.response_format = { type: 'json_object' };
+  } else if (format?.type === 'json_schema') {
+    openAIRequest.response_format = {
+      type: 'json_schema',
+      json_schema: {
+        name: format.name,
+        description: format.description,
+        schema: format.schema
+      }
+    };
+  }
+
+  return openAIRequest;
+}
+
+/**
+ * 构建 Responses API 响应对象的公共字段
+ * @param responsesRequest Responses API 格式的请求体
+ * @returns 响应对象（output 为空，status 为 in_progress）
+ */
+function buildResponsesBase(responsesRequest: any) {
+  return {
+    id: `resp_${crypto.randomUUID().replace(/-/g, '')}`,
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status: 'in_progress',
+    model: responsesRequest.model || 'qwen3-max',
+    instructions: responsesRequest.instructions ?? null,
+    output: [] as any[],
+    usage: null as any
+  };
+}
+
+/**
+ * 将 OpenAI 用量转换为 Responses API 用量格式
+ * @param usage OpenAI 格式的用量
+ * @returns Responses API 格式的用量
+ */
+function toResponsesUsage(usage: OpenAIUsage) {
+  return {
+    input_tokens: usage.prompt_tokens,
+    output_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens
+  };
+}
+
+/**
+ * 将 OpenAI 工具调用转换为 Responses API 的 function_call 输出项
+ * @param toolCall OpenAI 格式的工具调用
+ * @returns function_call 输出项
+ */
+function toResponsesFunctionCall(toolCall: any) {
+  return {
+    type: 'function_call',
+    id: `fc_${crypto.randomUUID().replace(/-/g, '')}`,
+    call_id: toolCall.id,
+    name: toolCall.function.name,
+    arguments: toolCall.function.arguments,
+    status: 'completed'
+  };
+}
+
+/**
+ * 将聚合后的 Qwen 结果构建为 Responses API 响应对象
+ *
+ * @param result collectQwenCompletion 的返回值
+ * @param responsesRequest Responses API 格式的请求体
+ * @returns Responses API 格式的非流式响应
+ */
+function buildResponsesObject(
+  result: Awaited<ReturnType<typeof collectQwenCompletion>>,
+  responsesRequest: any
+) {
+  const response = buildResponsesBase(responsesRequest);
+  if (result.reasoning) {
+    response.output.push({
+      type: 'reasoning',
+      id: `rs_${crypto.randomUUID().replace(/-/g, '')}`,
+      summary: [{ type: 'summary_text', text: result.reasoning }]
+    });
+  }
+  if (result.content.trim() || result.toolCalls.length === 0) {
+    response.output.push({
+      type: 'message',
+      id: `msg_${crypto.randomUUID().replace(/-/g, '')}`,
+      status: 'completed',
+      role: 'assistant',
+      content: [
+        {
+          type: 'output_text',
+          text: result.content,
+          // Responses API 的 url_citation 注释字段是扁平结构
+          annotations: buildUrlCitations(result.sources, result.content).map(
+            item => ({
+              type: 'url_citation',
+              ...item.url_citation
+            })
+          )
+        }
+      ]
+    });
+  }
+  response.output.push(...result.toolCalls.map(toResponsesFunctionCall));
+
+  return {
+    ...response,
+    status: 'completed',
+    output_text: result.content,
+    usage: toResponsesUsage(result.usage)
+  };
+}
+
+/**
+ * 将完整的 Responses API 响应对象转换为 SSE 事件流
+ * 用于需要先完整读取再返回的场景（如 JSON 模式下的流式请求），
+ * 事件顺序与 createQwenToResponsesStreamTransformer 一致
+ *
+ * @param response buildResponsesObject 的返回值
+ * @returns Responses API 格式的 SSE 字节流
+ */
+function createResponsesStreamFromObject(
+  response: ReturnType<typeof buildResponsesObject>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const events: [string, Record<string, any>][] = [];
+  const pending = {
+    ...response,
+    status: 'in_progress',
+    output: [],
+    usage: null
+  };
+  events.push(['response.created', { response: pending }]);
+  events.push(['response.in_progress', { response: pending }]);
+
+  for (const [outputIndex, item] of response.output.entries()) {
+    if (item.type === 'reasoning') {
+      const part = item.summary[0];
+      events.push(
+        [
+          'response.output_item.added',
+          { output_index: outputIndex, item: { ...item, summary: [] } }
+        ],
+        [
+          'response.reasoning_summary_part.added',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            summary_index: 0,
+            part: { type: 'summary_text', text: '' }
+          }
+        ],
+        [
+          'response.reasoning_summary_text.delta',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            summary_index: 0,
+            delta: part.text
+          }
+        ],
+        [
+          'response.reasoning_summary_text.done',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            summary_index: 0,
+            text: part.text
+          }
+        ],
+        [
+          'response.reasoning_summary_part.done',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            summary_index: 0,
+            part
+          }
+        ]
+      );
+    } else if (item.type === 'message') {
+      const part = item.content[0];
+      events.push(
+        [
+          'response.output_item.added',
+          {
+            output_index: outputIndex,
+            item: { ...item, status: 'in_progress', content: [] }
+          }
+        ],
+        [
+          'response.content_part.added',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            content_index: 0,
+            part: { type: 'output_text', text: '', annotations: [] }
+          }
+        ],
+        [
+          'response.output_text.delta',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            content_index: 0,
+            delta: part.text
+          }
+        ],
+        [
+          'response.output_text.done',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            content_index: 0,
+            text: part.text
+          }
+        ],
+        [
+          'response.content_part.done',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            content_index: 0,
+            part
+          }
+        ]
+      );
+    } else {
+      events.push(
+        [
+          'response.output_item.added',
+          {
+            output_index: outputIndex,
+            item: { ...item, arguments: '', status: 'in_progress' }
+          }
+        ],
+        [
+          'response.function_call_arguments.delta',
+          { item_id: item.id, output_index: outputIndex, delta: item.arguments }
+        ],
+        [
+          'response.function_call_arguments.done',
+          {
+            item_id: item.id,
+            output_index: outputIndex,
+            arguments: item.arguments
+          }
+        ]
+      );
+    }
+    events.push([
+      'response.output_item.done',
+      { output_index: outputIndex, item }
+    ]);
+  }
+  events.push(['response.completed', { response }]);
+
+  return new ReadableStream({
+    start(controller) {
+      for (const [index, [type, data]] of events.entries()) {
+        controller.enqueue(
+          encoder.encode(
+            `event: ${type}\ndata: ${JSON.stringify({
+              type,
+              sequence_number: index,
+              ...data
+            })}\n\n`
+          )
+        );
+      }
+      controller.close();
+    }
+  });
+}
+
+/**
+ * 创建转换流，将解析后的 Qwen 数据块转换为 Responses API SSE 事件流
+ *
+ * 事件顺序：
+ * response.created → response.in_progress →
+ * （reasoning / message / function_call 输出项的 added、delta、done 事件）→
+ * response.completed
+ *
+ * 思考内容映射为 reasoning 输出项的摘要文本，回答内容映射为 message 输出项，
+ * 工具调用映射为 function_call 输出项。
+ *
+ * @param options 响应输出选项
+ * @param responsesRequest Responses API 格式的请求体
+ * @returns TransformStream，用于处理从 Qwen 到 Responses 格式的流转换
+ */
+function createQwenToResponsesStreamTransformer(
+  options: QwenOutputOptions,
+  responsesRequest: any
+): TransformStream<any, Uint8Array> {
+  const encoder = new TextEncoder();
+  const processor = createQwenDeltaProcessor(options);
+  const response = buildResponsesBase(responsesRequest);
+  let sequenceNumber = 0; // 事件序号
+  let started = false; // 是否已发送 response.created
+  let current: any = null; // 当前打开的 reasoning 或 message 输出项
+  let currentText = ''; // 当前输出项累积的文本
+
+  // 编码单个 Responses SSE 事件
+  const emit = (
+    controller: TransformStreamDefaultController<Uint8Array>,
+    type: string,
+    data: Record<string, any>
+  ) => {
+    controller.enqueue(
+      encoder.encode(
+        `event: ${type}\ndata: ${JSON.stringify({
+          type,
+          sequence_number: sequenceNumber++,
+          ...data
+        })}\n\n`
+      )
+    );
+  };
+
+  const ensureStarted = (
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (started) return;
+    started = true;
+    emit(controller, 'response.created', { response });
+    emit(controller, 'response.in_progress', { response });
+  };
+
+  // 关闭当前的 reasoning 或 message 输出项
+  const closeCurrent = (
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (!current) return;
+    const outputIndex = response.output.length - 1;
+    if (current.type === 'reasoning') {
+      const part = { type: 'summary_text', text: currentText };
+      emit(controller, 'response.reasoning_summary_text.done', {
+        item_id: current.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        text: currentText
+      });
+      emit(controller, 'response.reasoning_summary_part.done', {
+        item_id: current.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        part
+      });
+      current.summary = [part];
+    } else {
+      const part = { type: 'output_text', text: currentText, annotations: [] };
+      emit(controller, 'response.output_text.done', {
+        item_id: current.id,
+        output_index: outputIndex,
+        content_index: 0,
+        text: currentText
+      });
+      emit(controller, 'response.content_part.done', {
+        item_id: current.id,
+        output_index: outputIndex,
+        content_index: 0,
+        part
+      });
+      current.content = [part];
+      current.status = 'completed';
+    }
+    emit(controller, 'response.output_item.done', {
+      output_index: outputIndex,
+      item: current
+    });
+    current = null;
+    currentText = '';
+  };
+
+  // 按内容类型写入增量，类型变化时切换输出项
+  const writeText = (
+    type: 'reasoning' | 'message',
+    text: string,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (!text) return;
+    if (current?.type !== type) {
+      closeCurrent(controller);
+      current =
+        type === 'reasoning'
+          ? {
+              type: 'reasoning',
+              id: `rs_${crypto.randomUUID().replace(/-/g, '')}`,
+              summary: []
+            }
+          : {
+              type: 'message',
+              id: `msg_${crypto.randomUUID().replace(/-/g, '')}`,
+              status: 'in_progress',
+              role: 'assistant',
+              content: []
+            };
+      response.output.push(current);
+      const outputIndex = response.output.length - 1;
+      emit(controller, 'response.output_item.added', {
+        output_index: outputIndex,
+        item: current
+      });
+      if (type === 'reasoning') {
+        emit(controller, 'response.reasoning_summary_part.added', {
+          item_id: current.id,
+          output_index: outputIndex,
+          summary_index: 0,
+          part: { type: 'summary_text', text: '' }
+        });
+      } else {
+        emit(controller, 'response.content_part.added', {
+          item_id: current.id,
+          output_index: outputIndex,
+          content_index: 0,
+          part: { type: 'output_text', text: '', annotations: [] }
+        });
+      }
+    }
+
+    currentText += text;
+    const outputIndex = response.output.length - 1;
+    if (type === 'reasoning') {
+      emit(controller, 'response.reasoning_summary_text.delta', {
+        item_id: current.id,
+        output_index: outputIndex,
+        summary_index: 0,
+        delta: text
+      });
+    } else {
+      emit(controller, 'response.output_text.delta', {
+        item_id: current.id,
+        output_index: outputIndex,
+        content_index: 0,
+        delta: text
+      });
+    }
+  };
+
+  const writeDelta = (
+    delta: QwenDelta,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    ensureStarted(controller);
+    writeText('reasoning', delta.reasoning, controller);
+    writeText('message', delta.content, controller);
+
+    // 每个工具调用作为一个完整的 function_call 输出项发送
+    for (const toolCall of delta.toolCalls) {
+      closeCurrent(controller);
+      const item = toResponsesFunctionCall(toolCall);
+      response.output.push(item);
+      const outputIndex = response.output.length - 1;
+      emit(controller, 'response.output_item.added', {
+        output_index: outputIndex,
+        item: { ...item, arguments: '', status: 'in_progress' }
+      });
+      emit(controller, 'response.function_call_arguments.delta', {
+        item_id: item.id,
+        output_index: outputIndex,
+        delta: item.arguments
+      });
+      emit(controller, 'response.function_call_arguments.done', {
+        item_id: item.id,
+        output_index: outputIndex,
+        arguments: item.arguments
+      });
+      emit(controller, 'response.output_item.done', {
+        output_index: outputIndex,
+        item
+      });
+    }
+  };
+
+  return new TransformStream({
+    transform(qwenChunk, controller) {
+      writeDelta(processor.push(qwenChunk), controller);
+    },
+    flush(controller) {
+      writeDelta(processor.finish(), controller);
+      closeCurrent(controller);
+      emit(controller, 'response.completed', {
+        response: {
+          ...response,
+          status: 'completed',
+          usage: toResponsesUsage(processor.usage)
+        }
+      });
+    }
+  });
+}
+
+// --- 图像生成 ---
+
+// Qwen 文生图支持的宽高比
+const QWEN_IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+
+/**
+ * 将 OpenAI 的图像尺寸（如 1024x1792）映射为最接近的 Qwen 宽高比
+ * @param size OpenAI 格式的尺寸字符串，也可以直接传入宽高比
+ * @returns Qwen 支持的宽高比
+ */
+function mapImageSizeToAspectRatio(size: string | undefined): string {
+  if (!size) return '1:1';
+  if (QWEN_IMAGE_ASPECT_RATIOS.includes(size)) return size;
+
+  const match = size.match(/^(\d+)\s*[x*×]\s*(\d+)$/i);
+  if (!match) return '1:1';
+  const ratio = Number(match[1]) / Number(match[2]);
+
+  // 选择比值最接近的宽高比
+  let best = '1:1';
+  let bestDiff = Infinity;
+  for (const candidate of QWEN_IMAGE_ASPECT_RATIOS) {
+    const [w, h] = candidate.split(':').map(Number);
+    const diff = Math.abs(Math.log(ratio / (w / h)));
+    if (diff < bestDiff) {
+      best = candidate;
+      bestDiff = diff;
+    }
+  }
+  return best;
+}
+
+/**
+ * 从 Qwen 文生图的输出文本中提取图像 URL
+ * 兼容纯 URL 和 Markdown 图像两种输出形式
+ *
+ * @param text 聚合后的输出文本
+ * @returns 去重后的图像 URL 列表
+ */
+function extractImageUrls(text: string): string[] {
+  const urls = text.match(/https?:\/\/[^\s)"'<>\]]+/g) || [];
+  return [...new Set(urls)];
+}
+
+/**
+ * 下载图像并转换为 base64 字符串（用于 response_format: b64_json）
+ * URL 来自模型输出，与远程图像上传一样拒绝内网地址，并限制超时和大小
+ *
+ * @param url 图像 URL
+ * @returns base64 编码的图像数据
+ */
+async function downloadImageAsBase64(url: string): Promise<string> {
+  const bytes = await downloadRemoteImage(url);
+  if (!detectMimeType(bytes, '').startsWith('image/')) {
+    throw new Error('下载的内容不是图像');
+  }
+  return encode(bytes);
+}
+
+// --- 视频生成任务 ---
+
+// 视频生成任务配置常量
+const VIDEO_CONFIG = {
+  taskStatusUrl: 'https://chat.qwen.ai/api/v1/tasks/status', // 上游任务状态查询 API 地址
+  pollInterval: 5000, // 轮询间隔（毫秒）
+  timeout: 20 * 60 * 1000, // 任务最长等待时间（毫秒）
+  jobTtl: 24 * 60 * 60 * 1000 // 任务记录在 KV 中的保留时间（毫秒）
+};
+
+/**
+ * 读取 Qwen 视频生成请求的响应
+ * t2v 请求可能返回 SSE 流，也可能直接返回 JSON，两种格式统一解析为对象列表
+ *
+ * @param stream 上游响应的字节流
+ * @returns 解析出的 JSON 对象列表
+ */
+async function readQwenTaskResponse(
+  stream: ReadableStream<Uint8Array>
+): Promise<any[]> {
+  const text = await new Response(stream).text();
+  const objects: any[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) continue;
+    try {
+      objects.push(JSON.parse(trimmed.substring(5)));
+    } catch {
+      // 忽略无法解析的行
+    }
+  }
+  if (objects.length === 0) {
+    try {
+      objects.push(JSON.parse(text));
+    } catch {
+      console.error('无法解析视频生成响应：', text.slice(0, 500));
+    }
+  }
+  return objects;
+}
+
+/**
+ * 在嵌套对象中深度查找指定字段的第一个非空值
+ * @param value 待查找的对象
+ * @param key 字段名
+ * @returns 找到的值，未找到时返回 undefined
+ */
+function findDeepValue(value: any, key: string): any {
+  if (!value || typeof value !== 'object') return undefined;
+  if (value[key] !== undefined && value[key] !== null && value[key] !== '') {
+    return value[key];
+  }
+  for (const child of Object.values(value)) {
+    const found = findDeepValue(child, key);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+/**
+ * 从文本中提取视频 URL
+ * @param text 任意文本
+ * @returns 第一个视频 URL，未找到时返回 null
+ */
+function extractVideoUrl(text: string): string | null {
+  const match = text.match(/https?:\/\/[^\s)"'<>\]]+\.mp4[^\s)"'<>\]]*/i);
+  return match ? match[0] : null;
+}
+
+/**
+ * 查询上游视频生成任务的状态
+ * @param taskId 上游任务 ID
+ * @param token 上游 API 令牌
+ * @returns 任务状态和视频 URL
+ */
+async function fetchQwenTaskStatus(
+  taskId: string,
+  token: string
+): Promise<{ status: string; url: string | null; raw: any }> {
+  const response = await fetch(`${VIDEO_CONFIG.taskStatusUrl}/${taskId}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'User-Agent':
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' // 模拟浏览器
+    }
+  });
+  if (!response.ok) {
+    throw new Error(
+      `查询任务状态失败：${response.status} ${response.statusText}`
+    );
+  }
+  const data = await response.json();
+  const status = String(findDeepValue(data, 'task_status') || 'running');
+  const content = findDeepValue(data, 'content');
+  const url =
+    typeof content === 'string' && /^https?:\/\//.test(content)
+      ? content
+      : extractVideoUrl(JSON.stringify(data));
+  return { status, url, raw: data };
+}
+
+/**
+ * 更新视频任务记录（任务已被取消时不再覆盖）
+ * @param id 任务 ID
+ * @param updates 需要更新的字段
+ * @returns 更新后的任务，任务不存在或已取消时返回 null
+ */
+async function updateVideoJob(
+  id: string,
+  updates: Partial<VideoJob>
+): Promise<VideoJob | null> {
+  return await kvStore.updateVideoJob(id, job =>
+    job.status === 'cancelled' ? null : { ...job, ...updates }
+  );
+}
+
+/**
+ * 在后台跟踪视频生成任务
+ *
+ * 工作流程：
+ * 1. 以 -video 模型（chat_type: t2v）发起聊天请求
+ * 2. 从响应中读取视频 URL 或上游任务 ID
+ * 3. 按固定间隔轮询上游任务状态，直到完成、失败、超时或被取消
+ *    （单次查询失败不终止任务，继续轮询直到超时）
+ * 4. 每个阶段的结果写回 KV 中的任务记录
+ * 5. 发现任务被客户端取消时，删除上游聊天以终止生成
+ *
+ * @param job 视频任务记录
+ */
+async function trackVideoJob(job: VideoJob): Promise<void> {
+  try {
+    const requestBody = {
+      model: `${job.model.replace(/-video$/, '')}-video`,
+      messages: [{ role: 'user', content: job.prompt }],
+      size: job.size
+    };
+    const upstream = await openQwenChatStream(requestBody);
+    if (!upstream.ok) {
+      await updateVideoJob(job.id, {
+        status: 'failed',
+        error: JSON.stringify(upstream.body),
+        completed_at: Math.floor(Date.now() / 1000)
+      });
+      return;
+    }
+
+    const objects = await readQwenTaskResponse(upstream.body);
+    const directUrl = extractVideoUrl(JSON.stringify(objects));
+    const taskId = findDeepValue(objects, 'task_id');
+    const chatId = findDeepValue(objects, 'chat_id');
+
+    // 任务被取消后删除上游聊天，终止仍在进行的生成
+    const stopUpstream = async () => {
+      if (chatId) await cleanupQwenChat(String(chatId), upstream.token);
+    };
+
+    if (!taskId) {
+      await updateVideoJob(job.id, {
+        status: directUrl ? 'completed' : 'failed',
+        url: directUrl,
+        error: directUrl ? null : '上游未返回视频任务',
+        completed_at: Math.floor(Date.now() / 1000)
+      });
+      return;
+    }
+
+    if (
+      !(await updateVideoJob(job.id, {
+        status: 'in_progress',
+        task_id: taskId
+      }))
+    ) {
+      await stopUpstream(); // 任务已被取消
+      return;
+    }
+
+    const deadline = Date.now() + VIDEO_CONFIG.timeout;
+    let lastPollError: string | null = null;
+    while (Date.now() < deadline) {
+      await new Promise(res => setTimeout(res, VIDEO_CONFIG.pollInterval));
+
+      // 客户端取消后停止轮询并终止上游任务
+      const current = await kvStore.getVideoJob(job.id);
+      if (!current || current.status === 'cancelled') {
+        await stopUpstream();
+        return;
+      }
+
+      // 单次查询失败（网络抖动、上游临时错误）时继续轮询
+      let task: Awaited<ReturnType<typeof fetchQwenTaskStatus>>;
+      try {
+        task = await fetchQwenTaskStatus(taskId, upstream.token);
+      } catch (err) {
+        lastPollError = (err as Error).message;
+        console.warn(
+          `视频任务 ${job.id} 状态查询失败，稍后重试：`,
+          lastPollError
+        );
+        continue;
+      }
+      if (task.status === 'success' && task.url) {
+        await updateVideoJob(job.id, {
+          status: 'completed',
+          url: task.url,
+          completed_at: Math.floor(Date.now() / 1000)
+        });
+        return;
+      }
+      if (['failed', 'error', 'cancelled'].includes(task.status)) {
+        await updateVideoJob(job.id, {
+          status: 'failed',
+          error: JSON.stringify(task.raw),
+          completed_at: Math.floor(Date.now() / 1000)
+        });
+        return;
+      }
+    }
+
+    await updateVideoJob(job.id, {
+      status: 'failed',
+      error: lastPollError
+        ? `视频生成超时（最近一次查询失败：${lastPollError}）`
+        : '视频生成超时',
+      completed_at: Math.floor(Date.now() / 1000)
+    });
+  } catch (err) {
+    console.error(`视频任务 ${job.id} 执行失败：`, (err as Error).message);
+    await updateVideoJob(job.id, {
+      status: 'failed',
+      error: (err as Error).message,
+      completed_at: Math.floor(Date.now() / 1000)
+    });
+  }
+}
+
+// --- Ollama API 兼容 ---
+
+/**
+ * 根据 base64 数据的文件头推断图像 MIME 类型
+ * Ollama 的 images 字段只包含裸 base64 数据，没有 data URL 前缀
+ *
+ * @param base64 base64 编码的图像数据
+ * @returns 图像 MIME 类型
+ */
+function detectBase64ImageMime(base64: string): string {
+  if (base64.startsWith('/9j/')) return 'image/jpeg';
+  if (base64.startsWith('R0lGOD')) return 'image/gif';
+  if (base64.startsWith('UklGR')) return 'image/webp';
+  return 'image/png';
+}
+
+/**
+ * 将 Ollama 消息转换为 OpenAI 格式的消息
+ * @param message Ollama 格式的消息
+ * @returns OpenAI 格式的消息
+ */
+function ollamaMessageToOpenAI(message: any): any {
+  const images: string[] = Array.isArray(message.images) ? message.images : [];
+  const result: any = { role: message.role, content: message.content ?? '' };
+
+  // 图像转换为 data URL 形式的 image_url 内容部分
+  if (images.length > 0) {
+    result.content = [
+      { type: 'text', text: message.content ?? '' },
+      ...images.map(image => ({
+        type: 'image_url',
+        image_url: {
+          url: image.startsWith('data:')
+            ? image
+            : `data:${detectBase64ImageMime(image)};base64,${image}`
+        }
+      }))
+    ];
+  }
+
+  // Ollama 的工具调用参数是对象，且没有调用 ID
+  if (message.role === 'assistant' && Array.isArray(message.tool_calls)) {
+    result.tool_calls = message.tool_calls.map((call: any, index: number) => ({
+      id: call.id || `call_${index}`,
+      type: 'function',
+      function: {
+        name: call.function?.name,
+        arguments:
+          typeof call.function?.arguments === 'string'
+            ? call.function.arguments
+            : JSON.stringify(call.function?.arguments ?? {})
+      }
+    }));
+  }
+  if (message.role === 'tool' && message.tool_name) {
+    result.name = message.tool_name;
+  }
+  return result;
+}
+
+/**
+ * 将 Ollama 的 /api/chat 或 /api/generate 请求转换为 OpenAI 格式的聊天请求
+ *
+ * @param ollamaRequest Ollama 格式的请求体
+ * @param mode 请求来源：chat 或 generate
+ * @returns OpenAI 格式的请求体
+ */
+function transformOllamaRequestToOpenAI(
+  ollamaRequest: any,
+  mode: 'chat' | 'generate'
+): any {
+  let messages: any[];
+  if (mode === 'chat') {
+    messages = (ollamaRequest.messages || []).map(ollamaMessageToOpenAI);
+  } else {
+    messages = [];
+    if (ollamaRequest.system) {
+      messages.push({ role: 'system', content: ollamaRequest.system });
+    }
+    messages.push(
+      ollamaMessageToOpenAI({
+        role: 'user',
+        content: ollamaRequest.prompt ?? '',
+        images: ollamaRequest.images
+      })
+    );
+  }
+
+  // think 参数映射为 -thinking 模型变体
+  let model = ollamaRequest.model || 'qwen3-max';
+  if (ollamaRequest.think && !model.includes('-thinking')) {
+    model = `${model}-thinking`;
+  }
+
+  const openAIRequest: any = {
+    model,
+    messages,
+    // Ollama 默认使用流式响应
+    stream: ollamaRequest.stream !== false,
+    reasoning_format: 'reasoning_content'
+  };
+  if (Array.isArray(ollamaRequest.tools)) {
+    openAIRequest.tools = ollamaRequest.tools;
+  }
+
+  // format 为 "json" 或 JSON Schema 对象
+  if (ollamaRequest.format === 'json') {
+    openAIRequest.response_format = { type: 'json_object' };
+  } else if (ollamaRequest.format && typeof ollamaRequest.format === 'object') {
+    openAIRequest.response_format = {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: ollamaRequest.format }
+    };
+  }
+
+  return openAIRequest;
+}
+
+/**
+ * 将 OpenAI 工具调用转换为 Ollama 格式（参数为对象）
+ * @param toolCall OpenAI 格式的工具调用
+ * @returns Ollama 格式的工具调用
+ */
+function toOllamaToolCall(toolCall: any): any {
+  let args: any = {};
+  try {
+    args = JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    args = {};
+  }
+  return { function: { name: toolCall.function.name, arguments: args } };
+}
+
+/**
+ * 构建 Ollama 响应的结束字段
+ * @param finishReason OpenAI 格式的结束原因
+ * @param usage OpenAI 格式的用量
+ * @param startTime 请求开始时间（毫秒）
+ * @returns 结束字段对象
+ */
+function buildOllamaDoneFields(
+  finishReason: string,
+  usage: OpenAIUsage,
+  startTime: number
+) {
+  return {
+    done: true,
+    done_reason: finishReason === 'length' ? 'length' : 'stop',
+    total_duration: (Date.now() - startTime) * 1e6, // 纳秒
+    prompt_eval_count: usage.prompt_tokens,
+    eval_count: usage.completion_tokens
+  };
+}
+
+/**
+ * 将聚合后的 Qwen 结果构建为 Ollama 的非流式响应
+ *
+ * @param result collectQwenCompletion 的返回值
+ * @param model 客户端请求的模型名称
+ * @param mode 请求来源：chat 或 generate
+ * @param startTime 请求开始时间（毫秒）
+ * @returns Ollama 格式的响应对象
+ */
+function buildOllamaResponse(
+  result: Awaited<ReturnType<typeof collectQwenCompletion>>,
+  model: string,
+  mode: 'chat' | 'generate',
+  startTime: number
+) {
+  const base: any = { model, created_at: new Date().toISOString() };
+  if (mode === 'chat') {
+    base.message = { role: 'assistant', content: result.content };
+    if (result.reasoning) base.message.thinking = result.reasoning;
+    if (result.toolCalls.length > 0) {
+      base.message.tool_calls = result.toolCalls.map(toOllamaToolCall);
+    }
+  } else {
+    base.response = result.content;
+    if (result.reasoning) base.thinking = result.reasoning;
+  }
+  return {
+    ...base,
+    ...buildOllamaDoneFields(result.finishReason, result.usage, startTime)
+  };
+}
+
+/**
+ * 将完整的 Ollama 响应对象转换为 NDJSON 流
+ * 用于需要先完整读取再返回的场景（如 JSON 模式下的流式请求）：
+ * 第一行携带全部内容，最后一行带有 done: true 和统计字段
+ *
+ * @param response buildOllamaResponse 的返回值
+ * @param mode 请求来源：chat 或 generate
+ * @returns Ollama 格式的 NDJSON 字节流
+ */
+function createOllamaStreamFromResponse(
+  response: ReturnType<typeof buildOllamaResponse>,
+  mode: 'chat' | 'generate'
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const {
+    model,
+    created_at,
+    message,
+    response: text,
+    thinking,
+    ...done
+  } = response;
+  const lines =
+    mode === 'chat'
+      ? [
+          { model, created_at, message, done: false },
+          {
+            model,
+            created_at,
+            message: { role: 'assistant', content: '' },
+            ...done
+          }
+        ]
+      : [
+          { model, created_at, response: text, thinking, done: false },
+          { model, created_at, response: '', ...done }
+        ];
+
+  return new ReadableStream({
+    start(controller) {
+      for (const line of lines) {
+        controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      }
+      controller.close();
+    }
+  });
+}
+
+/**
+ * 创建转换流，将解析后的 Qwen 数据块转换为 Ollama 的 NDJSON 流
+ *
+ * 每行一个 JSON 对象：chat 模式使用 message.content / message.thinking，
+ * generate 模式使用 response / thinking，最后一行带有 done: true 和统计字段
+ *
+ * @param options 响应输出选项
+ * @param model 客户端请求的模型名称
+ * @param mode 请求来源：chat 或 generate
+ * @returns TransformStream，用于处理从 Qwen 到 Ollama 格式的流转换
+ */
+function createQwenToOllamaStreamTransformer(
+  options: QwenOutputOptions,
+  model: string,
+  mode: 'chat' | 'generate'
+): TransformStream<any, Uint8Array> {
+  const encoder = new TextEncoder();
+  const processor = createQwenDeltaProcessor(options);
+  const startTime = Date.now();
+
+  // 编码单行 NDJSON
+  const encodeLine = (fields: Record<string, any>) =>
+    encoder.encode(
+      `${JSON.stringify({
+        model,
+        created_at: new Date().toISOString(),
+        ...fields
+      })}\n`
+    );
+
+  // 按模式构建内容字段
+  const buildFields = (delta: QwenDelta) => {
+    if (mode === 'chat') {
+      const message: any = { role: 'assistant', content: delta.content };
+      if (delta.reasoning) message.thinking = delta.reasoning;
+      if (delta.toolCalls.length > 0) {
+        message.tool_calls = delta.toolCalls.map(toOllamaToolCall);
+      }
+      return { message };
+    }
+    const fields: any = { response: delta.content };
+    if (delta.reasoning) fields.thinking = delta.reasoning;
+    return fields;
+  };
+
+  const writeDelta = (
+    delta: QwenDelta,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    if (!delta.content && !delta.reasoning && delta.toolCalls.length === 0) {
+      return;
+    }
+    controller.enqueue(encodeLine({ ...buildFields(delta), done: false }));
+  };
+
+  return new TransformStream({
+    transform(qwenChunk, controller) {
+      writeDelta(processor.push(qwenChunk), controller);
+    },
+    flush(controller) {
+      writeDelta(processor.finish(), controller);
+      controller.enqueue(
+        encodeLine({
+          ...buildFields({ content: '', reasoning: '', toolCalls: [] }),
+          ...buildOllamaDoneFields(
+            processor.finishReason,
+            processor.usage,
+            startTime
+          )
+        })
+      );
+    }
+  });
+}
+
+// Ollama 模型详情（上游不提供参数规模等信息，统一使用固定值）
+const OLLAMA_MODEL_DETAILS = {
+  parent_model: '',
+  format: 'qwen',
+  family: 'qwen',
+  families: ['qwen'],
+  parameter_size: '',
+  quantization_level: ''
+};
+
+// --- Gemini API 兼容 ---
+
+/**
+ * 将 Gemini 内容的 parts 转换为 OpenAI 消息
+ *
+ * - text 部分合并为文本内容（thought 部分仅用于客户端回放，不发送到上游）
+ * - inlineData 图像转换为 data URL、音频转换为 input_audio，交由 processMessagesForQwen 上传到 OSS
+ * - functionCall / functionResponse 转换为 tool_calls 和 tool 消息
+ *
+ * @param content Gemini 格式的内容（role + parts）
+ * @param callIds 函数名到最近一次调用 ID 的映射，用于关联 functionResponse
+ * @returns OpenAI 格式的消息数组
+ */
+function geminiContentToOpenAI(
+  content: any,
+  callIds: Map<string, string>
+): any[] {
+  const role = content.role === 'model' ? 'assistant' : 'user';
+  const parts: any[] = [];
+  const toolCalls: any[] = [];
+  const toolResults: any[] = [];
+
+  for (const part of content.parts || []) {
+    if (typeof part.text === 'string') {
+      if (!part.thought) parts.push({ type: 'text', text: part.text });
+    } else if (part.inlineData?.mimeType?.startsWith('audio/')) {
+      parts.push({
+        type: 'input_audio',
+        input_audio: {
+          data: part.inlineData.data,
+          format: part.inlineData.mimeType.split('/')[1]
+        }
+      });
+    } else if (part.inlineData?.data) {
+      const mimeType = part.inlineData.mimeType || 'image/png';
+      parts.push({
+        type: 'image_url',
+        image_url: { url: `data:${mimeType};base64,${part.inlineData.data}` }
+      });
+    } else if (part.fileData?.fileUri) {
+      parts.push({
+        type: 'image_url',
+        image_url: { url: part.fileData.fileUri }
+      });
+    } else if (part.functionCall) {
+      const id = part.functionCall.id || `call_${crypto.randomUUID()}`;
+      callIds.set(part.functionCall.name, id);
+      toolCalls.push({
+        id,
+        type: 'function',
+        function: {
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args ?? {})
+        }
+      });
+    } else if (part.functionResponse) {
+      const name = part.functionResponse.name;
+      toolResults.push({
+        role: 'tool',
+        name,
+        tool_call_id: part.functionResponse.id || callIds.get(name) || '',
+        content: JSON.stringify(part.functionResponse.response ?? {})
+      });
+    }
+  }
+
+  const messages: any[] = [...toolResults];
+  const hasMedia = parts.some(part => part.type !== 'text');
+  const text = hasMedia ? parts : extractTextContent(parts);
+  if (role === 'assistant' && toolCalls.length > 0) {
+    messages.push({ role, content: text || null, tool_calls: toolCalls });
+  } else if (parts.length > 0) {
+    messages.push({ role, content: text });
+  }
+  return messages;
+}
+
+/**
+ * 将 Gemini generateContent 请求转换为 OpenAI 格式的聊天请求
+ *
+ * @param geminiRequest Gemini 格式的请求体
+ * @param model 路径中的模型名称
+ * @param stream 是否为 streamGenerateContent 请求
+ * @returns OpenAI 格式的请求体
+ */
+function transformGeminiRequestToOpenAI(
+  geminiRequest: any,
+  model: string,
+  stream: boolean
+): any {
+  const messages: any[] = [];
+
+  // systemInstruction 可以是字符串或 Content 对象
+  const system = geminiRequest.systemInstruction;
+  if (system) {
+    const systemText =
+      typeof system === 'string'
+        ? system
+        : extractTextContent(
+            (system.parts || []).map((part: any) => ({
+              type: 'text',
+              text: part.text || ''
+            }))
+          );
+    if (systemText) messages.push({ role: 'system', content: systemText });
+  }
+
+  const callIds = new Map<string, string>();
+  for (const content of geminiRequest.contents || []) {
+    messages.push(...geminiContentToOpenAI(content, callIds));
+  }
+
+  // thinkingConfig 映射为 -thinking 模型变体（thinkingBudget 为 0 表示关闭）
+  const generationConfig = geminiRequest.generationConfig || {};
+  const thinkingConfig = generationConfig.thinkingConfig;
+  if (
+    thinkingConfig &&
+    (thinkingConfig.includeThoughts ||
+      (thinkingConfig.thinkingBudget ?? 0) !== 0) &&
+    !model.includes('-thinking')
+  ) {
+    model = `${model}-thinking`;
+  }
+
+  const openAIRequest: any = {
+    model,
+    messages,
+    stream,
+    reasoning_format: 'reasoning_content'
+  };
+
+  // 工具定义：functionDeclarations 展开为 OpenAI tools
+  const declarations = (geminiRequest.tools || []).flatMap(
+    (tool: any) => tool.functionDeclarations || []
+  );
+  if (declarations.length > 0) {
+    openAIRequest.tools = declarations.map((declaration: any) => ({
+      type: 'function',
+      function: {
+        name: declaration.name,
+        description: declaration.description || '',
+        parameters: declaration.parameters ||
+          declaration.parametersJsonSchema || { type: 'object' }
+      }
+    }));
+  }
+  const callingConfig = geminiRequest.toolConfig?.functionCallingConfig;
+  if (callingConfig?.mode === 'NONE') {
+    openAIRequest.tool_choice = 'none';
+  } else if (callingConfig?.mode === 'ANY') {
+    const allowed = callingConfig.allowedFunctionNames || [];
+    openAIRequest.tool_choice =
+      allowed.length === 1
+        ? { type: 'function', function: { name: allowed[0] } }
+        : 'required';
+  }
+
+  // responseMimeType 为 JSON 时映射为 response_format
+  if (generationConfig.responseMimeType === 'application/json') {
+    const schema =
+      generationConfig.responseJsonSchema || generationConfig.responseSchema;
+    openAIRequest.response_format = schema
+      ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+      : { type: 'json_object' };
+  }
+
+  return openAIRequest;
+}
+
+/**
+ * 将 OpenAI 结束原因映射为 Gemini finishReason
+ * @param finishReason OpenAI 格式的结束原因
+ * @returns Gemini 格式的 finishReason
+ */
+function toGeminiFinishReason(finishReason: string): string {
+  return finishReason === 'length' ? 'MAX_TOKENS' : 'STOP';
+}
+
+/**
+ * 将 OpenAI 用量转换为 Gemini usageMetadata
+ * @param usage OpenAI 格式的用量
+ * @returns Gemini 格式的 usageMetadata
+ */
+function toGeminiUsageMetadata(usage: OpenAIUsage) {
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount: usage.total_tokens
+  };
+}
+
+/**
+ * 将增量内容构建为 Gemini 的 parts 数组
+ *
+ * @param delta 本次的增量内容
+ * @param includeThoughts 是否输出 thought 部分
+ * @returns Gemini 格式的 parts 数组
+ */
+function buildGeminiParts(delta: QwenDelta, includeThoughts: boolean): any[] {
+  const parts: any[] = [];
+  if (includeThoughts && delta.reasoning) {
+    parts.push({ text: delta.reasoning, thought: true });
+  }
+  if (delta.content) parts.push({ text: delta.content });
+  for (const toolCall of delta.toolCalls) {
+    let args: any = {};
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+      args = {};
+    }
+    parts.push({
+      functionCall: { id: toolCall.id, name: toolCall.function.name, args }
+    });
+  }
+  return parts;
+}
+
+/**
+ * 将聚合后的 Qwen 结果构建为 Gemini GenerateContentResponse
+ *
+ * @param result collectQwenCompletion 的返回值
+ * @param model 路径中的模型名称
+ * @param includeThoughts 是否输出 thought 部分
+ * @returns Gemini 格式的响应对象
+ */
+function buildGeminiResponse(
+  result: Awaited<ReturnType<typeof collectQwenCompletion>>,
+  model: string,
+  includeThoughts: boolean
+) {
+  return {
+    candidates: [
+      {
+        content: {
+          role: 'model',
+          parts: buildGeminiParts(result, includeThoughts)
+        },
+        finishReason: toGeminiFinishReason(result.finishReason),
+        index: 0
+      }
+    ],
+    usageMetadata: toGeminiUsageMetadata(result.usage),
+    modelVersion: model
+  };
+}
+
+/**
+ * 创建转换流，将解析后的 Qwen 数据块转换为 Gemini 的流式响应
+ *
+ * 每个增量对应一个 GenerateContentResponse，最后一个响应带有 finishReason
+ * 和 usageMetadata。alt=sse 时以 SSE 事件输出，否则输出一个逐步写入的 JSON 数组
+ *
+ * @param options 响应输出选项
+ * @param model 路径中的模型名称
+ * @param includeThoughts 是否输出 thought 部分
+ * @param sse 是否使用 SSE 格式
+ * @returns TransformStream，用于处理从 Qwen 到 Gemini 格式的流转换
+ */
+function createQwenToGeminiStreamTransformer(
+  options: QwenOutputOptions,
+  model: string,
+  includeThoughts: boolean,
+  sse: boolean
+): TransformStream<any, Uint8Array> {
+  const encoder = new TextEncoder();
+  const processor = createQwenDeltaProcessor(options);
+  let isFirst = true;
+
+  // 按输出格式编码单个响应
+  const encodeResponse = (response: any) => {
+    const json = JSON.stringify(response);
+    if (sse) return encoder.encode(`data: ${json}\r\n\r\n`);
+    const prefix = isFirst ? '[' : ',\r\n';
+    isFirst = false;
+    return encoder.encode(prefix + json);
+  };
+
+  const writeDelta = (
+    delta: QwenDelta,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    const parts = buildGeminiParts(delta, includeThoughts);
+    if (parts.length === 0) return;
+    controller.enqueue(
+      encodeResponse({
+        candidates: [{ content: { role: 'model', parts }, index: 0 }],
+        modelVersion: model
+      })
+    );
+  };
+
+  return new TransformStream({
+    transform(qwenChunk, controller) {
+      writeDelta(processor.push(qwenChunk), controller);
+    },
+    flush(controller) {
+      writeDelta(processor.finish(), controller);
+      controller.enqueue(
+        encodeResponse({
+          candidates: [
+            {
+              content: { role: 'model', parts: [{ text: '' }] },
+              finishReason: toGeminiFinishReason(processor.finishReason),
+              index: 0
+            }
+          ],
+          usageMetadata: toGeminiUsageMetadata(processor.usage),
+          modelVersion: model
+        })
+      );
+      if (!sse) controller.enqueue(encoder.encode(']'));
+    }
+  });
+}
+
+/**
+ * 将代理内部的错误响应转换为 Gemini 错误格式
+ * @param status HTTP 状态码
+ * @param body 内部错误响应体
+ * @returns Gemini 格式的错误响应体
+ */
+function toGeminiError(status: number, body: any): any {
+  const statusText =
+    status === 400
+      ? 'INVALID_ARGUMENT'
+      : status === 401
+      ? 'UNAUTHENTICATED'
+      : status === 403
+      ? 'PERMISSION_DENIED'
+      : status === 404
+      ? 'NOT_FOUND'
+      : status === 429
+      ? 'RESOURCE_EXHAUSTED'
+      : status === 503
+      ? 'UNAVAILABLE'
+      : 'INTERNAL';
+  const message =
+    typeof body?.error === 'string'
+      ? body.details
+        ? `${body.error}: ${
+            typeof body.details === 'string'
+              ? body.details
+              : JSON.stringify(body.details)
+          }`
+        : body.error
+      : JSON.stringify(body);
+  return { error: { code: status, message, status: statusText } };
+}
+
+// --- 文本补全（Legacy Completions）兼容 ---
+
+// Completions 请求配置
+const COMPLETIONS_CONFIG = {
+  maxPrompts: 16 // 单个请求允许的 prompt 数量上限（每个 prompt 对应一次上游聊天）
+};
+
+/**
+ * 将 Completions 请求的 prompt 规范化为字符串数组
+ * 令牌 ID 数组形式的 prompt 无法在 Qwen 聊天之上还原，返回 null
+ *
+ * @param prompt 字符串或字符串数组
+ * @returns prompt 字符串数组，不支持的格式返回 null
+ */
+function normalizeCompletionPrompts(prompt: any): string[] | null {
+  if (typeof prompt === 'string') return [prompt];
+  if (
+    Array.isArray(prompt) &&
+    prompt.length > 0 &&
+    prompt.every(item => typeof item === 'string')
+  ) {
+    return prompt;
+  }
+  return null;
+}
+
+/**
+ * 将 stop 参数规范化为非空字符串数组
+ * @param stop 字符串或字符串数组
+ * @returns 停止序列数组
+ */
+function normalizeStopSequences(stop: any): string[] {
+  const stops = Array.isArray(stop) ? stop : [stop];
+  return stops.filter(item => typeof item === 'string' && item.length > 0);
+}
+
+/**
+ * 构建 suffix 插入模式的系统提示词（Qwen 聊天不支持原生的中间填充）
+ * @param suffix 补全内容之后的后缀文本
+ * @returns 系统提示词
+ */
+function buildSuffixPrompt(suffix: string): string {
+  return [
+    '用户消息是一段文本的前缀，该文本的后缀如下：',
+    suffix,
+    '请只输出应插入在前缀和后缀之间的内容，不要重复前缀或后缀，不要添加任何解释。'
+  ].join('\n\n');
+}
+
+/**
+ * 将单个 prompt 的 Completions 请求转换为 OpenAI 格式的聊天请求
+ *
+ * @param completionRequest Completions 格式的请求体
+ * @param prompt 单个 prompt 文本，作为用户消息发送
+ * @returns OpenAI 格式的请求体
+ */
+function transformCompletionRequestToOpenAI(
+  completionRequest: any,
+  prompt: string
+): any {
+  const messages: any[] = [];
+  if (
+    typeof completionRequest.suffix === 'string' &&
+    completionRequest.suffix
+  ) {
+    messages.push({
+      role: 'system',
+      content: buildSuffixPrompt(completionRequest.suffix)
+    });
+  }
+  messages.push({ role: 'user', content: prompt });
+
+  return {
+    model: completionRequest.model || 'qwen3-max',
+    messages,
+    stream: completionRequest.stream === true,
+    reasoning_format: 'reasoning_content'
+  };
+}
+
+/**
+ * 创建停止序列过滤器（每个补全结果独立一个实例）
+ *
+ * 在遇到任一停止序列时截断输出；流式输出时暂存可能是停止序列开头的末尾文本，
+ * 避免停止序列被拆分到多个数据块时漏判
+ *
+ * @param stops 停止序列数组
+ * @returns 过滤器对象：push 返回可以安全输出的文本，flush 返回剩余文本
+ */
+function createStopSequenceFilter(stops: string[]) {
+  let buffer = ''; // 暂存的文本
+  let stopped = false; // 是否已遇到停止序列
+
+  // 计算缓冲区末尾可能是停止序列开头的最长长度
+  const partialLength = (text: string) => {
+    let max = 0;
+    for (const stop of stops) {
+      for (let len = Math.min(stop.length - 1, text.length); len > max; len--) {
+        if (stop.startsWith(text.slice(-len))) {
+          max = len;
+          break;
+        }
+      }
+    }
+    return max;
+  };
+
+  return {
+    push(text: string): string {
+      if (stopped || !text) return '';
+      buffer += text;
+
+      // 查找最早出现的停止序列
+      let stopIndex = -1;
+      for (const stop of stops) {
+        const index = buffer.indexOf(stop);
+        if (index !== -1 && (stopIndex === -1 || index < stopIndex)) {
+          stopIndex = index;
+        }
+      }
+      if (stopIndex !== -1) {
+        stopped = true;
+        const output = buffer.slice(0, stopIndex);
+        buffer = '';
+        return output;
+      }
+
+      const keep = partialLength(buffer);
+      const output = buffer.slice(0, buffer.length - keep);
+      buffer = buffer.slice(buffer.length - keep);
+      return output;
+    },
+    flush(): string {
+      const output = stopped ? '' : buffer;
+      buffer = '';
+      return output;
+    },
+    get stopped() {
+      return stopped;
+    }
+  };
+}
+
+/**
+ * 单个 prompt 的补全结果
+ */
+interface TextCompletionChoice {
+  text: string;
+  index: number;
+  logprobs: null;
+  finish_reason: string;
+}
+
+/**
+ * 构建 OpenAI `text_completion` 响应对象
+ *
+ * @param model 模型名称
+ * @param choices 各 prompt 的补全结果
+ * @param usage 合计用量
+ * @returns OpenAI 标准格式的文本补全响应
+ */
+function buildTextCompletion(
+  model: string,
+  choices: TextCompletionChoice[],
+  usage: OpenAIUsage
+) {
+  return {
+    id: `cmpl-${crypto.randomUUID()}`,
+    object: 'text_completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices,
+    usage
+  };
+}
+
+/**
+ * 将聚合后的 Qwen 结果转换为单个补全结果（应用停止序列和 echo）
+ *
+ * @param result collectQwenCompletion 的返回值
+ * @param index 对应 prompt 的索引
+ * @param prompt 对应的 prompt 文本
+ * @param completionRequest Completions 格式的请求体
+ * @returns 补全结果
+ */
+function buildTextCompletionChoice(
+  result: Awaited<ReturnType<typeof collectQwenCompletion>>,
+  index: number,
+  prompt: string,
+  completionRequest: any
+): TextCompletionChoice {
+  const filter = createStopSequenceFilter(
+    normalizeStopSequences(completionRequest.stop)
+  );
+  const text = filter.push(result.content) + filter.flush();
+  return {
+    text: completionRequest.echo ? prompt + text : text,
+    index,
+    logprobs: null,
+    finish_reason: filter.stopped ? 'stop' : result.finishReason
+  };
+}
+
+/**
+ * 流式文本补全中单个 prompt 的上游请求
+ */
+interface TextCompletionEntry {
+  prompt: string; // prompt 文本
+  options: QwenOutputOptions; // 输出选项
+  body?: ReadableStream<Uint8Array>; // 已打开的上游响应流（仅第一个 prompt）
+  open: () => ReturnType<typeof openQwenChatStream>; // 按需打开上游响应流
+}
+
+/**
+ * 将多个 Qwen 上游流依次转换为 OpenAI `text_completion` 格式的 SSE 流
+ *
+ * 每个 prompt 的补全内容使用各自的 choices 索引，
+ * 上一个 prompt 完成后才打开下一个上游流，避免同时占用多个上游聊天；
+ * 后续 prompt 的上游请求失败时输出错误数据块并结束流。
+ * 全部完成后按需输出合计用量数据块，最后发送 [DONE]
+ *
+ * 客户端断开时取消当前正在读取的上游流，不再打开后续的上游流
+ *
+ * @param entries 各 prompt 的上游请求、prompt 文本和输出选项
+ * @param completionRequest Completions 格式的请求体
+ * @returns OpenAI 文本补全格式的 SSE 流
+ */
+function createTextCompletionStream(
+  entries: TextCompletionEntry[],
+  completionRequest: any
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const id = `cmpl-${crypto.randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const model = completionRequest.model || 'qwen3-max';
+  const stops = normalizeStopSequences(completionRequest.stop);
+  const usage: OpenAIUsage = {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0
+  };
+
+  const encodeChunk = (choices: any[], extra: any = {}) =>
+    encoder.encode(
+      `data: ${JSON.stringify({
+        id,
+        object: 'text_completion',
+        created,
+        model,
+        choices,
+        ...extra
+      })}\n\n`
+    );
+
+  const encodeText = (
+    index: number,
+    text: string,
+    finishReason: string | null
+  ) =>
+    encodeChunk([{ text, index, logprobs: null, finish_reason: finishReason }]);
+
+  let cancelled = false;
+  let reader: ReadableStreamDefaultReader<any> | null = null;
+
+  return new ReadableStream({
+    async start(controller) {
+      // 客户端断开后 enqueue 会抛出异常，此时停止读取上游
+      const send = (chunk: Uint8Array) => {
+        if (cancelled) return;
+        try {
+          controller.enqueue(chunk);
+        } catch {
+          cancelled = true;
+          reader?.cancel().catch(() => {});
+        }
+      };
+
+      try {
+        for (const [index, entry] of entries.entries()) {
+          if (cancelled) return;
+          const processor = createQwenDeltaProcessor(entry.options);
+          const filter = createStopSequenceFilter(stops);
+          if (completionRequest.echo) {
+            send(encodeText(index, entry.prompt, null));
+          }
+
+          // 第一个 prompt 的上游流已在返回响应前打开，其余按需依次打开
+          let body = entry.body;
+          if (!body) {
+            const upstream = await entry.open();
+            if (!upstream.ok) {
+              send(encodeChunk([], { error: upstream.body }));
+              break;
+            }
+            body = upstream.body;
+          }
+          if (cancelled) {
+            await body.cancel();
+            return;
+          }
+
+          reader = body.pipeThrough(createQwenSseParser()).getReader();
+          while (!cancelled) {
+            const { done, value: qwenChunk } = await reader.read();
+            if (done) break;
+            const text = filter.push(processor.push(qwenChunk).content);
+            if (text) send(encodeText(index, text, null));
+            // 遇到停止序列后不再读取上游
+            if (filter.stopped) {
+              await reader.cancel();
+              break;
+            }
+          }
+          reader = null;
+          if (cancelled) return;
+          if (!filter.stopped) {
+            const text =
+              filter.push(processor.finish().content) + filter.flush();
+            if (text) send(encodeText(index, text, null));
+          }
+
+          send(
+            encodeText(
+              index,
+              '',
+              filter.stopped ? 'stop' : processor.finishReason
+            )
+          );
+          usage.prompt_tokens += processor.usage.prompt_tokens;
+          usage.completion_tokens += processor.usage.completion_tokens;
+          usage.total_tokens += processor.usage.total_tokens;
+        }
+
+        if (completionRequest.stream_options?.include_usage === true) {
+          send(encodeChunk([], { usage }));
+        }
+        send(encoder.encode('data: [DONE]\n\n'));
+        if (!cancelled) controller.close();
+      } catch (err) {
+        if (!cancelled) controller.error(err);
+      }
+    },
+    async cancel(reason) {
+      cancelled = true;
+      // 取消正在读取的上游流；第一个 prompt 尚未开始读取时直接取消其响应流
+      if (reader) {
+        await reader.cancel(reason).catch(() => {});
+      } else if (entries[0]?.body && !entries[0].body.locked) {
+        await entries[0].body.cancel(reason).catch(() => {});
+      }
+    }
+  });
+}
+
+// --- 会话保持 ---
+
+// 会话保持配置
+const SESSION_CONFIG = {
+  header: 'X-Session-Id', // 客户端指定会话标识的请求头
+  ttl: 24 * 60 * 60 * 1000, // 会话记录保留时间：24 小时
+  turnTimeout: 10 * 60 * 1000 // 单轮对话占用会话的最长时间：10 分钟
+};
+
+/**
+ * 生成会话保持记录的键
+ * 按客户端密钥和模型隔离，不同客户端或模型使用相同的会话标识时互不影响
+ *
+ * @param sessionId 客户端提供的会话标识（X-Session-Id 头或 user 字段）
+ * @param model 请求的模型名称
+ * @param clientToken 客户端访问密钥（可选）
+ * @returns 会话保持记录的键
+ */
+async function scopeSessionKey(
+  sessionId: string,
+  model: string,
+  clientToken?: string
+): Promise<string> {
+  const client = clientToken
+    ? (await sha256Hex(clientToken)).slice(0, 16)
+    : 'anonymous';
+  return `${client}:${model}:${sessionId}`;
+}
+
+/**
+ * 计算消息摘要，用于比对客户端历史与已发送到上游的历史
+ * 只取角色、内容和工具调用等语义字段，忽略 name 等附加字段
+ *
+ * @param message OpenAI 格式的消息
+ * @returns SHA-256 十六进制摘要
+ */
+async function digestMessage(message: any): Promise<string> {
+  const content =
+    typeof message.content === 'string'
+      ? message.content.trim()
+      : message.content ?? '';
+  const normalized = JSON.stringify([
+    message.role,
+    content,
+    (message.tool_calls || []).map((call: any) => [
+      call.function?.name,
+      call.function?.arguments
+    ]),
+    message.tool_call_id ?? null
+  ]);
+  return await sha256Hex(normalized);
+}
+
+/**
+ * 解析本次请求在会话中的上游上下文并占用会话
+ *
+ * 客户端发送的历史以已记录的历史为前缀、且绑定的账户仍然可用（有效、未过期、
+ * 不在冷却或熔断期）时，沿用原上游聊天和账户，只发送新增的消息；
+ * 否则换用新的账户开启新的上游聊天并完整发送，原聊天在本轮记录后按清理策略处理。
+ *
+ * 同一会话同时只允许进行一轮对话（通过版本号检查原子地占用记录），
+ * 会话已被其他请求占用时返回 null，本次请求不使用会话保持
+ *
+ * @param sessionKey 会话标识
+ * @param messages 客户端发送的完整消息数组
+ * @returns 上游令牌、聊天上下文、需要发送的消息、完整历史的摘要和本轮对话标识
+ */
+async function resolveChatSession(sessionKey: string, messages: any[]) {
+  const digests = await Promise.all((messages || []).map(digestMessage));
+  const { session: stored, versionstamp } = await kvStore.getChatSession(
+    sessionKey
+  );
+  if (stored?.lockedUntil && stored.lockedUntil > Date.now()) {
+    console.warn(`会话 ${sessionKey} 正在处理上一轮请求，本次不使用会话保持`);
+    return null;
+  }
+
+  let resolved: {
+    token: string;
+    context: QwenChatContext;
+    messages: any[];
+    digests: string[];
+  } | null = null;
+  if (stored) {
+    // 会话请求只尝试一次，不可用的账户会让每一轮都失败，因此直接换用新账户
+    const tokenAvailable = (await kvStore.getApiKeys()).some(
+      token => token.value === stored.token && isTokenAvailable(token)
+    );
+    const isPrefix =
+      stored.history.length < digests.length &&
+      stored.history.every((digest, index) => digest === digests[index]);
+
+    if (tokenAvailable && isPrefix) {
+      resolved = {
+        token: stored.token,
+        context: stored.context,
+        messages: messages.slice(stored.history.length),
+        digests
+      };
+    } else {
+      console.warn(
+        `会话 ${sessionKey} 的历史与记录不一致或账户不可用，回退为完整发送`
+      );
+    }
+  }
+  if (!resolved) {
+    resolved = {
+      token: await getUpstreamToken(),
+      context: {
+        chatId: crypto.randomUUID(),
+        sessionId: crypto.randomUUID(),
+        parentId: null
+      } as QwenChatContext,
+      messages,
+      digests
+    };
+  }
+
+  // 占用会话：并发请求中只有一个能写入成功
+  const turnId = crypto.randomUUID();
+  const claimed = await kvStore.claimChatSession(sessionKey, versionstamp, {
+    ...(stored || {
+      token: resolved.token,
+      context: resolved.context,
+      history: []
+    }),
+    updatedAt: Date.now(),
+    turnId,
+    lockedUntil: Date.now() + SESSION_CONFIG.turnTimeout
+  });
+  if (!claimed) {
+    console.warn(`会话 ${sessionKey} 正在处理上一轮请求，本次不使用会话保持`);
+    return null;
+  }
+  return { ...resolved, turnId };
+}
+
+/**
+ * 释放本轮对话对会话的占用（上游请求失败或被拒绝时调用，会话记录保持不变）
+ * @param sessionKey 会话标识
+ * @param turnId 本轮对话标识
+ */
+async function releaseChatSession(
+  sessionKey: string,
+  turnId: string
+): Promise<void> {
+  await kvStore.finishChatSessionTurn(sessionKey, turnId, current =>
+    // 新会话在首轮完成前没有历史，直接删除占位记录
+    current.history.length > 0
+      ? { ...current, turnId: undefined, lockedUntil: undefined }
+      : null
+  );
+}
+
+/**
+ * 会话中正在进行的一轮对话
+ */
+interface ChatSessionTurn {
+  token: string; // 本轮使用的上游 API_KEY
+  context: QwenChatContext; // 上游聊天上下文
+  digests: string[]; // 客户端发送的完整历史的摘要
+  turnId: string; // 占用会话时的对话标识
+}
+
+/**
+ * 在后台读取上游响应副本，记录本轮回复并更新会话，结束后释放会话占用
+ *
+ * @param sessionKey 会话标识
+ * @param session 本轮使用的令牌、聊天上下文、客户端历史摘要和对话标识
+ * @param stream 上游响应流的副本
+ * @param options 响应输出选项（与客户端一致，以便还原工具调用）
+ */
+async function recordChatSessionTurn(
+  sessionKey: string,
+  session: ChatSessionTurn,
+  stream: ReadableStream<Uint8Array>,
+  options: QwenOutputOptions
+): Promise<void> {
+  try {
+    await recordChatSessionReply(sessionKey, session, stream, options);
+  } finally {
+    // 记录失败时释放占用（已写入新记录时不会再修改）
+    await releaseChatSession(sessionKey, session.turnId);
+  }
+}
+
+/**
+ * 读取上游响应副本并写入本轮回复（会话已被其他请求接管时不写入）
+ *
+ * @param sessionKey 会话标识
+ * @param session 本轮使用的令牌、聊天上下文、客户端历史摘要和对话标识
+ * @param stream 上游响应流的副本
+ * @param options 响应输出选项
+ */
+async function recordChatSessionReply(
+  sessionKey: string,
+  session: ChatSessionTurn,
+  stream: ReadableStream<Uint8Array>,
+  options: QwenOutputOptions
+): Promise<void> {
+  const processor = createQwenDeltaProcessor(options);
+  let content = '';
+  const toolCalls: any[] = [];
+  let parentId = session.context.parentId;
+
+  const append = (delta: QwenDelta) => {
+    content += delta.content;
+    toolCalls.push(...delta.toolCalls);
+  };
+
+  const reader = stream.pipeThrough(createQwenSseParser()).getReader();
+  while (true) {
+    const { done, value: qwenChunk } = await reader.read();
+    if (done) break;
+    // 上游在响应开始时返回本轮回复的消息 ID
+    const responseId = qwenChunk?.['response.created']?.response_id;
+    if (responseId) parentId = responseId;
+    append(processor.push(qwenChunk));
+  }
+  append(processor.finish());
+
+  const replyDigest = await digestMessage({
+    role: 'assistant',
+    content,
+    tool_calls: toolCalls
+  });
+
+  // 回退为完整发送时本轮开启了新的上游聊天，被替换的旧聊天不再使用
+  let replaced = null as ChatSession | null;
+  const written = await kvStore.finishChatSessionTurn(
+    sessionKey,
+    session.turnId,
+    current => {
+      replaced =
+        current.context.chatId !== session.context.chatId ? current : null;
+      return {
+        token: session.token,
+        context: { ...session.context, parentId },
+        history: [...session.digests, replyDigest],
+        updatedAt: Date.now()
+      };
+    }
+  );
+  if (written && replaced) {
+    await scheduleChatCleanup(replaced.context.chatId, replaced.token);
+  }
+}
+
+// --- 上游聊天清理 ---
+
+// 上游聊天清理配置
+const CHAT_CLEANUP_CONFIG = {
+  deleteUrl: 'https://chat.qwen.ai/api/v2/chats', // 删除聊天接口（后接聊天 ID）
+  sweepInterval: 10 * 60 * 1000, // 后台批量清理间隔：10 分钟
+  batchSize: 50, // 每轮最多清理的聊天数
+  maxAttempts: 3 // 单个聊天的最大清理尝试次数
+};
+
+/**
+ * 删除上游 Qwen 聊天记录
+ * @param chatId 上游聊天 ID
+ * @param token 创建该聊天的上游 API 令牌
+ */
+async function deleteQwenChat(chatId: string, token: string): Promise<void> {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${token}`,
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' // 模拟浏览器
+  };
+  const { cookie } = await resolveUpstreamCookie(token);
+  if (cookie) {
+    headers['Cookie'] = cookie;
+  }
+
+  const response = await fetch(`${CHAT_CLEANUP_CONFIG.deleteUrl}/${chatId}`, {
+    method: 'DELETE',
+    headers
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`HTTP ${response.status}: ${text.slice(0, 200)}`);
+  }
+}
+
+/**
+ * 删除上游聊天并记录结果（失败时按令牌记录日志和统计）
+ * @param chatId 上游聊天 ID
+ * @param token 创建该聊天的上游 API 令牌
+ * @returns 是否删除成功
+ */
+async function cleanupQwenChat(
+  chatId: string,
+  token: string
+): Promise<boolean> {
+  try {
+    await deleteQwenChat(chatId, token);
+    await kvStore.recordChatCleanup(token, null);
+    return true;
+  } catch (err) {
+    const message = (err as Error).message;
+    console.warn(
+      `清理上游聊天失败 (令牌 ${maskTokenValue(
+        token
+      )}, 聊天 ${chatId}): ${message}`
+    );
+    await kvStore.recordChatCleanup(token, message);
+    return false;
+  }
+}
+
+/**
+ * 按清理策略处理已结束的上游聊天
+ * - immediate：立即删除
+ * - sweep：加入待清理队列，由后台任务批量删除
+ *
+ * @param chatId 上游聊天 ID
+ * @param token 创建该聊天的上游 API 令牌
+ */
+async function scheduleChatCleanup(
+  chatId: string,
+  token: string
+): Promise<void> {
+  if (config.chatCleanup === 'immediate') {
+    await cleanupQwenChat(chatId, token);
+  } else if (config.chatCleanup === 'sweep') {
+    await kvStore.addPendingChatCleanup({
+      chatId,
+      token,
+      createdAt: Date.now(),
+      attempts: 0
+    });
+  }
+}
+
+/**
+ * 包装上游响应流，在流读取完毕或被客户端取消后触发回调
+ *
+ * @param body 上游响应流
+ * @param onEnd 流结束后执行的回调（只执行一次）
+ * @returns 包装后的响应流
+ */
+function onStreamEnd(
+  body: ReadableStream<Uint8Array>,
+  onEnd: () => Promise<void>
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let ended = false;
+  const finish = () => {
+    if (ended) return;
+    ended = true;
+    onEnd().catch(err => console.error('流结束回调执行失败：', err));
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          finish();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (err) {
+        controller.error(err);
+        finish();
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      finish();
+    }
+  });
+}
+
+/**
+ * 后台批量清理待清理队列中的上游聊天
+ * 失败的聊天保留在队列中，超过最大尝试次数后放弃
+ */
+async function sweepPendingChats(): Promise<void> {
+  const pending = await kvStore.listPendingChatCleanups(
+    CHAT_CLEANUP_CONFIG.batchSize
+  );
+  let deleted = 0;
+
+  for (const entry of pending) {
+    if (await cleanupQwenChat(entry.chatId, entry.token)) {
+      deleted++;
+      await kvStore.deletePendingChatCleanup(entry.chatId);
+    } else if (entry.attempts + 1 >= CHAT_CLEANUP_CONFIG.maxAttempts) {
+      console.warn(`上游聊天 ${entry.chatId} 多次清理失败，已放弃`);
+      await kvStore.deletePendingChatCleanup(entry.chatId);
+    } else {
+      await kvStore.addPendingChatCleanup({
+        ...entry,
+        attempts: entry.attempts + 1
+      });
+    }
+  }
+
+  await kvStore.markChatCleanupSweep();
+  if (pending.length > 0) {
+    console.log(
+      `后台清理上游聊天：成功 ${deleted} 个，共 ${pending.length} 个`
+    );
+  }
+}
+
+/**
+ * 获取用于 /cookies 状态展示的清理统计（令牌掩码处理）
+ * @returns 清理策略、待清理数量和按令牌统计的结果
+ */
+async function getChatCleanupSummary() {
+  const [stats, pending] = await Promise.all([
+    kvStore.getChatCleanupStats(),
+    kvStore.countPendingChatCleanups()
+  ]);
+  return {
+    mode: config.chatCleanup,
+    pending,
+    deleted: stats.deleted,
+    failed: stats.failed,
+    lastSweepAt: stats.lastSweepAt
+      ? new Date(stats.lastSweepAt).toLocaleString('zh-CN')
+      : '未运行',
+    tokens: Object.entries(stats.tokens).map(([token, item]) => ({
+      maskedValue: maskTokenValue(token),
+      ...item
+    }))
+  };
+}
+
+// --- 令牌健康检查 ---
+
+/**
+ * 令牌健康检查配置
+ */
+const HEALTH_CHECK_CONFIG = {
+  url: 'https://chat.qwen.ai/api/models', // 探测使用的轻量上游接口
+  timeout: 10 * 1000 // 单个令牌的探测超时（毫秒）
+};
+
+// 进行中的健康检查（避免定时任务与手动检查重叠）
+let healthCheckTask: Promise<TokenHealthReport> | null = null;
+
+/**
+ * 使用模型列表接口探测一组上游凭据
+ * 只有返回已登录的结果（success 不为 false 且模型列表非空）才视为探测成功
+ *
+ * @param token 上游 API_KEY
+ * @param cookie 随请求发送的 Cookie 头（可选）
+ * @returns 状态码（网络错误时为 0）、耗时和失败原因
+ */
+async function probeUpstream(
+  token: string,
+  cookie: string | null
+): Promise<{ status: number; latency: number; error: string | null }> {
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(HEALTH_CHECK_CONFIG.url, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(cookie && { Cookie: cookie })
+      },
+      signal: AbortSignal.timeout(HEALTH_CHECK_CONFIG.timeout)
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return {
+        status: response.status,
+        latency: Date.now() - startedAt,
+        error: `HTTP ${response.status}`
+      };
+    }
+
+    const result = await response.json().catch(() => null);
+    const authenticated =
+      result?.success !== false &&
+      Array.isArray(result?.data) &&
+      result.data.length > 0;
+    return {
+      status: response.status,
+      latency: Date.now() - startedAt,
+      error: authenticated ? null : '响应未包含模型列表（可能未登录）'
+    };
+  } catch (err) {
+    return {
+      status: 0,
+      latency: Date.now() - startedAt,
+      error: (err as Error).message
+    };
+  }
+}
+
+/**
+ * 根据探测结果原子地更新令牌状态并累加计数
+ *
+ * @param type 令牌类型：'apiKey' 或 'ssxmod'
+ * @param value 令牌值
+ * @param probe 探测结果
+ * @param invalidate 探测失败时是否标记为失效（认证失败）
+ * @param counts 要累加的计数
+ */
+async function applyHealthProbe(
+  type: 'apiKey' | 'ssxmod',
+  value: string,
+  probe: { latency: number; error: string | null },
+  invalidate: boolean,
+  counts: TokenHealthCounts
+): Promise<void> {
+  const label = type === 'apiKey' ? 'API_KEY' : 'SSXMOD_ITNA';
+  let wasValid = true;
+  const update = (current: TokenItem): Partial<TokenItem> => {
+    wasValid = current.isValid;
+    const updates: Partial<TokenItem> = {
+      lastCheckedAt: Date.now(),
+      latency: probe.latency
+    };
+    if (probe.error === null) {
+      updates.isValid = true;
+      if (current.failureStreak || current.cooldownUntil) {
+        updates.failureStreak = 0;
+        updates.cooldownUntil = undefined;
+      }
+    } else {
+      if (invalidate) updates.isValid = false;
+      updates.lastError = `健康检查失败：${probe.error}`;
+    }
+    return updates;
+  };
+
+  // 基于最新状态原子地更新，不覆盖探测期间其他请求写入的状态
+  if (type === 'apiKey') {
+    await kvStore.updateApiKey(value, update);
+  } else {
+    await kvStore.updateSsxmodToken(value, update);
+  }
+
+  if (probe.error === null) {
+    counts.healthy++;
+    if (!wasValid) {
+      counts.revived++;
+      console.log(`健康检查：${label} 已恢复 ${maskTokenValue(value)}`);
+    }
+  } else if (invalidate && wasValid) {
+    counts.invalidated++;
+    console.warn(
+      `健康检查：${label} 已失效 ${maskTokenValue(value)}（${probe.error}）`
+    );
+  }
+}
+
+/**
+ * 逐个探测所有 API_KEY 和共享 SSXMOD_ITNA 并更新令牌状态
+ *
+ * - API_KEY 携带一同导入的 Cookie 探测
+ * - 共享 SSXMOD_ITNA 借用本次探测正常的 API_KEY 探测，没有正常的 API_KEY 时跳过
+ * - 已过期的 API_KEY 不探测，也不会被恢复为有效
+ * - 探测成功：失效令牌恢复为有效，熔断或冷却中的令牌解除限制
+ * - 认证失败（API_KEY 为 401/403，SSXMOD_ITNA 为 403）：标记为失效
+ * - 限流、5xx、网络错误和未登录的响应：视为暂时故障，只记录原因
+ *
+ * @returns 检查报告
+ */
+async function runTokenHealthCheck(): Promise<TokenHealthReport> {
+  const startedAt = Date.now();
+  const [tokens, ssxmodTokens] = await Promise.all([
+    kvStore.getApiKeys(),
+    kvStore.getSsxmodTokens()
+  ]);
+  const report: TokenHealthReport = {
+    checkedAt: startedAt,
+    durationMs: 0,
+    total: tokens.length,
+    healthy: 0,
+    revived: 0,
+    invalidated: 0,
+    ssxmod: {
+      total: ssxmodTokens.length,
+      healthy: 0,
+      revived: 0,
+      invalidated: 0
+    }
+  };
+  const healthyKeys: string[] = [];
+
+  // 逐个探测，避免并发请求触发上游限流
+  for (const token of tokens) {
+    if (isTokenExpired(token)) continue;
+    const probe = await probeUpstream(token.value, buildPairedCookie(token));
+    const authFailed =
+      probe.status > 0 && classifyUpstreamError(probe.status) === 'auth';
+    await applyHealthProbe('apiKey', token.value, probe, authFailed, report);
+    if (probe.error === null) healthyKeys.push(token.value);
+  }
+
+  if (ssxmodTokens.length > 0 && healthyKeys.length === 0) {
+    console.warn('健康检查：没有正常的 API_KEY，跳过 SSXMOD_ITNA 探测');
+  } else {
+    for (const [index, ssxmod] of ssxmodTokens.entries()) {
+      const probe = await probeUpstream(
+        healthyKeys[index % healthyKeys.length],
+        `ssxmod_itna=${ssxmod.value}`
+      );
+      // API_KEY 刚探测正常，403 只可能来自风控对 SSXMOD_ITNA 的拦截
+      await applyHealthProbe(
+        'ssxmod',
+        ssxmod.value,
+        probe,
+        probe.status === 403,
+        report.ssxmod!
+      );
+    }
+  }
+
+  report.durationMs = Date.now() - startedAt;
+  await kvStore.setHealthReport(report);
+  console.log(
+    `令牌健康检查完成：${report.healthy}/${report.total} 个 API_KEY 正常，恢复 ${report.revived} 个，失效 ${report.invalidated} 个；` +
+      `${report.ssxmod!.healthy}/${report.ssxmod!.total} 个 SSXMOD_ITNA 正常`
+  );
+  return report;
+}
+
+/**
+ * 执行令牌健康检查（已有检查进行中时复用其结果）
+ * @returns 检查报告
+ */
+function checkTokenHealth(): Promise<TokenHealthReport> {
+  if (!healthCheckTask) {
+    healthCheckTask = runTokenHealthCheck().finally(() => {
+      healthCheckTask = null;
+    });
+  }
+  return healthCheckTask;
+}
+
+/**
+ * 获取令牌健康检查的状态摘要（用于 /cookies 接口展示）
+ */
+async function getHealthCheckSummary() {
+  const report = await kvStore.getHealthReport();
+  return {
+    enabled: config.healthCheckInterval > 0,
+    intervalMinutes: config.healthCheckInterval / 60 / 1000,
+    running: healthCheckTask !== null,
+    lastCheckedAt: report
+      ? new Date(report.checkedAt).toLocaleString('zh-CN')
+      : '未运行',
+    report
+  };
+}
+
+// --- 路由处理函数 ---
+
+/**
+ * 处理获取模型列表的逻辑
+ * 从 Qwen API 获取模型列表并添加特殊变体
+ *
+ * 功能：
+ * 1. 从上游 Qwen API 获取原始模型列表
+ * 2. 基于模型能力自动生成特殊变体（如 -thinking、-search、-image、-video）
+ * 3. 刷新模型能力缓存
+ * 4. 返回 OpenAI 兼容的模型列表格式
+ *
+ * @param upstreamToken 指定使用的上游令牌（可选，未指定时轮换获取）
+ * @returns 包含模型列表或错误信息的响应对象
+ */
+async function handleGetModels(upstreamToken?: string) {
+  // 获取轮换的上游令牌（模型列表请求不上报结果，不占用熔断探测名额）
+  const token = upstreamToken || (await getUpstreamToken([], false));
+  if (!token) {
+    return {
+      status: 503,
+      body: { error: '上游令牌未配置。' }
+    };
+  }
+
+  try {
+    // 从 Qwen API 获取模型列表
+    const response = await fetch('https://chat.qwen.ai/api/models', {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+
+    if (!response.ok) {
+      throw new Error(`获取模型失败：${response.statusText}`);
+    }
+
+    const originalModels = (await response.json()).data;
+    const processedModels: any[] = [];
+
+    // 处理每个原始模型，添加特殊变体
+    for (const model of originalModels) {
+      processedModels.push(model); // 添加原始模型
+
+      // 基于原始项目逻辑添加特殊变体
+      if (model?.info?.meta?.abilities?.thinking) {
+        // 如果模型支持思考功能，添加 -thinking 变体
+        processedModels.push({ ...model, id: `${model.id}-thinking` });
+      }
+      if (model?.info?.meta?.chat_type?.includes('search')) {
         // 如果模型支持搜索功能，添加 -search 变体
         processedModels.push({ ...model, id: `${model.id}-search` });
       }
-      if (model?.info?.meta?.chat_type?.includes('t2i')) {
-        // 如果模型支持文本到图像功能，添加 -image 变体
-        processedModels.push({ ...model, id: `${model.id}-image` });
+      if (model?.info?.meta?.chat_type?.includes('t2i')) {
+        // 如果模型支持文本到图像功能，添加 -image 变体
+        processedModels.push({ ...model, id: `${model.id}-image` });
+      }
+      if (model?.info?.meta?.chat_type?.includes('t2v')) {
+        // 如果模型支持文本到视频功能，添加 -video 变体
+        processedModels.push({ ...model, id: `${model.id}-video` });
+      }
+    }
+
+    modelAbilitiesCache = {
+      abilities: new Map(
+        processedModels.map(model => [
+          model.id,
+          model?.info?.meta?.abilities || {}
+        ])
+      ),
+      expiresAt: Date.now() + MODEL_ABILITIES_CONFIG.ttl
+    };
+
+    // 返回 OpenAI 兼容格式的模型列表
+    return {
+      status: 200,
+      body: { object: 'list', data: processedModels }
+    };
+  } catch (err) {
+    console.error('获取模型时出错：', (err as Error).message);
+    return {
+      status: 502,
+      body: { error: '从上游 API 获取模型失败。' }
+    };
+  }
+}
+
+// 模型能力缓存配置
+const MODEL_ABILITIES_CONFIG = {
+  ttl: 10 * 60 * 1000 // 模型列表缓存有效期：10 分钟
+};
+
+// 模型 ID（含变体）到能力声明的缓存
+let modelAbilitiesCache: {
+  abilities: Map<string, any>;
+  expiresAt: number;
+} | null = null;
+
+// 进行中的模型列表查询
+let modelAbilitiesTask: Promise<void> | null = null;
+
+/**
+ * 判断消息中是否包含 input_audio 音频输入
+ * @param messages OpenAI 格式的消息数组
+ * @returns 是否包含音频输入
+ */
+function hasAudioInput(messages: any[]): boolean {
+  return (messages || []).some(
+    message =>
+      Array.isArray(message.content) &&
+      message.content.some((part: any) => part?.type === 'input_audio')
+  );
+}
+
+/**
+ * 查询模型的能力声明（info.meta.abilities）
+ *
+ * 模型列表按 MODEL_ABILITIES_CONFIG.ttl 缓存（/v1/models 请求也会刷新缓存），
+ * 缓存过期后使用任一可用令牌重新获取，不参与令牌轮换
+ *
+ * @param modelId 模型 ID（可以是带后缀的变体）
+ * @returns 能力对象，模型列表获取失败时返回 null，未知模型返回空对象
+ */
+async function getModelAbilities(modelId: string): Promise<any | null> {
+  if (!modelAbilitiesCache || modelAbilitiesCache.expiresAt <= Date.now()) {
+    // 并发请求共用同一次查询
+    if (!modelAbilitiesTask) {
+      modelAbilitiesTask = (async () => {
+        const token = (await kvStore.getApiKeys()).find(
+          item => isTokenAvailable(item) && !isProbingToken(item)
+        )?.value;
+        if (!token) return;
+        await handleGetModels(token);
+      })().finally(() => {
+        modelAbilitiesTask = null;
+      });
+    }
+    await modelAbilitiesTask;
+  }
+
+  if (!modelAbilitiesCache || modelAbilitiesCache.expiresAt <= Date.now()) {
+    return null;
+  }
+  return modelAbilitiesCache.abilities.get(modelId) || {};
+}
+
+/**
+ * 上游 Qwen 请求结果
+ */
+type QwenUpstreamResult =
+  | { ok: true; body: ReadableStream<Uint8Array> }
+  | {
+      ok: false;
+      status: number;
+      kind: UpstreamErrorKind;
+      ssxmodItna: string | null; // 本次使用的共享 SSXMOD_ITNA（使用绑定值时为 null）
+      body: any;
+    };
+
+/**
+ * 将已预处理的 OpenAI 请求转换为 Qwen 格式并发送到上游
+ *
+ * 上游返回错误时按错误类别更新令牌状态，并返回可直接响应给客户端的错误
+ *
+ * @param requestBody 消息已经过 processMessagesForQwen 处理的 OpenAI 请求体
+ * @param token 上游 API 令牌
+ * @param context 会话保持模式下复用的上游聊天上下文（可选）
+ * @param excludeSsxmod 优先跳过的 SSXMOD_ITNA（故障转移时已尝试过的值）
+ * @returns 成功时返回上游响应流，失败时返回状态码和错误信息
+ */
+async function sendQwenChatRequest(
+  requestBody: any,
+  token: string,
+  context?: QwenChatContext,
+  excludeSsxmod: string[] = []
+): Promise<QwenUpstreamResult> {
+  // 将 OpenAI 请求转换为 Qwen 格式
+  const qwenRequest = transformOpenAIRequestToQwen(requestBody, context);
+
+  // 构建请求头
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' // 模拟浏览器
+  };
+
+  // 添加与令牌绑定的 Cookie（未绑定时使用共享的 SSXMOD_ITNA）
+  const { cookie, sharedSsxmod: ssxmodItna } = await resolveUpstreamCookie(
+    token,
+    excludeSsxmod
+  );
+  if (cookie) {
+    headers['Cookie'] = cookie;
+  }
+
+  // 打印信息用于离线调试
+  console.log('url', 'https://chat.qwen.ai/api/chat/completions');
+  console.log('body', JSON.stringify(qwenRequest, null, 2));
+
+  // 向上游 Qwen API 发送请求
+  const upstreamResponse = await fetch(
+    'https://chat.qwen.ai/api/chat/completions',
+    {
+      method: 'POST',
+      headers: headers,
+      body: JSON.stringify(qwenRequest)
+    }
+  );
+
+  // 检查上游响应是否成功
+  if (!upstreamResponse.ok || !upstreamResponse.body) {
+    const errorBody = await upstreamResponse.text();
+    console.error(`上游 API 错误：${upstreamResponse.status}`, errorBody);
+
+    // 按错误类别处理令牌：认证失败标记失效，限流冷却，5xx 计入熔断器
+    const retryAfter = upstreamResponse.headers.get('Retry-After');
+    const kind = await reportUpstreamFailure(
+      token,
+      ssxmodItna,
+      upstreamResponse.status,
+      retryAfter
+    );
+
+    return {
+      ok: false,
+      status: upstreamResponse.status,
+      kind,
+      ssxmodItna,
+      body: { error: '上游 API 请求失败', details: errorBody }
+    };
+  }
+
+  await reportUpstreamSuccess(token);
+
+  // 按清理策略在响应结束后删除上游聊天
+  // 会话保持的聊天需要继续使用，视频任务在聊天结束后仍在上游生成，均不清理
+  if (
+    config.chatCleanup !== 'keep' &&
+    !context &&
+    qwenRequest.chat_type !== 't2v'
+  ) {
+    return {
+      ok: true,
+      body: onStreamEnd(upstreamResponse.body, () =>
+        scheduleChatCleanup(qwenRequest.chat_id, token)
+      )
+    };
+  }
+
+  return { ok: true, body: upstreamResponse.body };
+}
+
+/**
+ * 上游故障转移的退避配置
+ */
+const UPSTREAM_RETRY_CONFIG = {
+  baseDelay: 500, // 首次重试前的等待时长（毫秒），之后逐次翻倍
+  maxDelay: 4000 // 单次等待时长上限（毫秒）
+};
+
+/**
+ * 单次上游请求尝试的记录
+ */
+interface UpstreamAttempt {
+  status: number; // 上游响应状态码
+  kind: UpstreamErrorKind; // 错误类别
+}
+
+/**
+ * 打开上游 Qwen 聊天流（各种 API 格式共用的聊天管道入口）
+ *
+ * 工作流程：
+ * 1. 获取轮换的上游令牌（会话保持时沿用会话绑定的令牌）
+ * 2. 异步处理消息中的图像上传
+ * 3. 转换并发送请求到 Qwen API
+ * 4. 上游在返回任何内容前失败时（认证失败、限流、5xx、网络错误），
+ *    退避后切换到下一个可用令牌和 SSXMOD_ITNA 重试，直到令牌池耗尽或达到尝试上限
+ *
+ * 请求本身有误（400 等）时不重试；会话保持的请求绑定了令牌，同样不重试。
+ *
+ * @param requestBody OpenAI 格式的请求体（messages 会被替换为处理后的消息）
+ * @param sessionKey 会话标识（可选，仅在开启会话保持模式时生效）
+ * @returns 成功时返回上游响应流和所用令牌，失败时返回状态码和错误信息；均包含尝试次数
+ */
+async function openQwenChatStream(
+  requestBody: any,
+  sessionKey?: string
+): Promise<
+  | {
+      ok: true;
+      body: ReadableStream<Uint8Array>;
+      token: string;
+      attempts: number;
+    }
+  | { ok: false; status: number; body: any; attempts: number }
+> {
+  // 会话保持：沿用上游聊天和账户，只发送新增的消息
+  const session =
+    config.sessionMode && sessionKey
+      ? await resolveChatSession(sessionKey, requestBody.messages)
+      : null;
+  if (session) requestBody.messages = session.messages;
+  // 本次请求未能转交给 recordChatSessionTurn 时释放会话占用
+  const releaseSession = async () => {
+    if (!session) return;
+    await releaseChatSession(sessionKey!, session.turnId).catch(err =>
+      console.error('释放会话占用失败：', err)
+    );
+  };
+
+  // 音频输入只能发送给支持音频的模型（无法获取模型能力时拒绝请求，而不是直接放行）
+  if (hasAudioInput(requestBody.messages)) {
+    const model = requestBody.model || 'qwen3-max';
+    const abilities = await getModelAbilities(model);
+    if (!abilities) {
+      await releaseSession();
+      return {
+        ok: false,
+        status: 503,
+        body: { error: '无法获取模型能力，暂时无法处理音频输入，请稍后重试' },
+        attempts: 0
+      };
+    }
+    if (!abilities.audio) {
+      await releaseSession();
+      return {
+        ok: false,
+        status: 400,
+        body: { error: `模型 ${model} 不支持音频输入（input_audio）` },
+        attempts: 0
+      };
+    }
+  }
+
+  const messages = requestBody.messages; // 每次尝试都基于原始消息重新上传文件
+  const maxAttempts = session ? 1 : config.upstreamMaxAttempts;
+  const attempts: UpstreamAttempt[] = [];
+  const triedTokens: string[] = [];
+  const triedSsxmod: string[] = [];
+  let lastFailure: { status: number; body: any } | null = null;
+
+  while (attempts.length < maxAttempts) {
+    // 获取轮换的上游令牌（跳过已失败的令牌）
+    const token = session ? session.token : await getUpstreamToken(triedTokens);
+    if (!token) break;
+
+    // 异步处理消息以进行文件上传（在转换请求之前）
+    requestBody.messages = await processMessagesForQwen(messages, token);
+
+    // 转换并发送请求到上游 Qwen API（网络错误按 502 处理）
+    const upstream: QwenUpstreamResult = await sendQwenChatRequest(
+      requestBody,
+      token,
+      session?.context,
+      triedSsxmod
+    ).catch(err => ({
+      ok: false as const,
+      status: 502,
+      kind: 'server' as const,
+      ssxmodItna: null,
+      body: { error: '上游 API 请求失败', details: (err as Error).message }
+    }));
+
+    if (upstream.ok) {
+      const attemptCount = attempts.length + 1;
+      if (attemptCount > 1) {
+        console.log(`第 ${attemptCount} 次尝试成功，已切换到其他令牌`);
+      }
+      if (session) {
+        // 复制一份响应流，在后台记录本轮回复
+        const [clientBody, recordBody] = upstream.body.tee();
+        recordChatSessionTurn(
+          sessionKey!,
+          { ...session, token },
+          recordBody,
+          resolveOutputOptions(requestBody)
+        ).catch(err => console.error('更新会话记录失败：', err));
+        return { ok: true, body: clientBody, token, attempts: attemptCount };
+      }
+      return { ok: true, body: upstream.body, token, attempts: attemptCount };
+    }
+
+    attempts.push({
+      status: upstream.status,
+      kind: upstream.kind
+    });
+    lastFailure = upstream;
+    // 请求本身有误，换令牌也无济于事
+    if (upstream.kind === 'request') break;
+
+    triedTokens.push(token);
+    if (upstream.ssxmodItna) triedSsxmod.push(upstream.ssxmodItna);
+    if (attempts.length < maxAttempts) {
+      const wait = Math.min(
+        UPSTREAM_RETRY_CONFIG.baseDelay * 2 ** (attempts.length - 1),
+        UPSTREAM_RETRY_CONFIG.maxDelay
+      );
+      console.warn(
+        `上游请求失败（令牌 ${maskTokenValue(token)}，HTTP ${
+          upstream.status
+        }），${wait}ms 后切换令牌重试`
+      );
+      await new Promise(res => setTimeout(res, wait));
+    }
+  }
+
+  await releaseSession();
+  if (!lastFailure) {
+    return {
+      ok: false,
+      status: 503,
+      body: { error: '上游令牌未配置。' },
+      attempts: 0
+    };
+  }
+  // 令牌池耗尽或达到尝试上限，返回最后一次错误、尝试次数和每次尝试的状态（不含令牌）
+  return {
+    ok: false,
+    status: lastFailure.status,
+    body: {
+      ...lastFailure.body,
+      attempts: attempts.length,
+      failures: attempts
+    },
+    attempts: attempts.length
+  };
+}
+
+/**
+ * 按 response_format 获取完整结果并校验 JSON，校验失败时可纠正重试一次
+ *
+ * 纠正请求与首次请求一样经过 openQwenChatStream（重新处理多模态消息，失败时切换令牌）。
+ * think_tags 输出模式下，内联的思考内容保留在校验后的 JSON 之前
+ *
+ * @param requestBody 已预处理的 OpenAI 请求体
+ * @param messages 客户端发送的原始消息（openQwenChatStream 处理前）
+ * @param firstBody 首次请求的上游响应流
+ * @param outputOptions 响应输出选项
+ * @returns 成功时返回聚合结果，失败时返回状态码和错误信息
+ */
+async function collectJsonModeCompletion(
+  requestBody: any,
+  messages: any[],
+  firstBody: ReadableStream<Uint8Array>,
+  outputOptions: QwenOutputOptions
+): Promise<
+  | {
+      ok: true;
+      result: Awaited<ReturnType<typeof collectQwenCompletion>>;
+    }
+  | { ok: false; status: number; body: any }
+> {
+  const responseFormat = requestBody.response_format;
+  let result = await collectQwenCompletion(firstBody, outputOptions);
+  // 工具调用的回复不需要校验 JSON
+  if (result.toolCalls.length > 0) return { ok: true, result };
+
+  let check = checkJsonOutput(result.content, responseFormat);
+
+  if (!check.valid && config.jsonModeRetry) {
+    console.warn('模型输出不符合 response_format，发送纠正请求重试一次');
+    const retryBody = {
+      ...requestBody,
+      messages: [
+        ...messages,
+        { role: 'assistant', content: splitThinkTags(result.content).answer },
+        { role: 'user', content: buildJsonCorrectionPrompt(check.errors) }
+      ]
+    };
+    const retry = await openQwenChatStream(retryBody);
+    if (!retry.ok) {
+      return { ok: false, status: retry.status, body: retry.body };
+    }
+    result = await collectQwenCompletion(retry.body, outputOptions);
+    check = checkJsonOutput(result.content, responseFormat);
+  }
+
+  if (!check.valid) {
+    return {
+      ok: false,
+      status: 502,
+      body: {
+        error: '模型输出不符合 response_format 要求',
+        details: check.errors,
+        output: result.content
+      }
+    };
+  }
+
+  return {
+    ok: true,
+    result: {
+      ...result,
+      content: splitThinkTags(result.content).thinking + check.content
+    }
+  };
+}
+
+/**
+ * 处理聊天完成请求的逻辑
+ *
+ * 工作流程：
+ * 1. 验证上游令牌可用性
+ * 2. 解析 OpenAI 格式的请求
+ * 3. 异步处理消息中的图像上传
+ * 4. 将请求转换为 Qwen 格式
+ * 5. 转发请求到 Qwen API（失败时切换令牌重试，尝试次数通过 X-Upstream-Attempts 头返回）
+ * 6. 转换响应流为 OpenAI 格式
+ * 7. 返回流式响应给客户端（stream 不为 true 时聚合为单个 JSON 响应）
+ *
+ * 设置了 response_format 时，先完整读取并校验 JSON，再按 stream 参数返回
+ *
+ * @param requestBody OpenAI 格式的请求体
+ * @param sessionKey 会话标识（X-Session-Id 头，未提供时使用 user 字段）
+ * @param clientToken 客户端访问密钥（用于隔离不同客户端的会话）
+ * @returns 包含流式响应或错误信息的响应对象
+ */
+async function handleChatCompletions(
+  requestBody: any,
+  sessionKey?: string,
+  clientToken?: string
+) {
+  try {
+    // JSON 模式的纠正重试需要完整历史，不使用会话保持
+    const sessionId = getResponseFormatType(requestBody.response_format)
+      ? undefined
+      : sessionKey || requestBody.user;
+    const activeSessionKey = sessionId
+      ? await scopeSessionKey(
+          sessionId,
+          requestBody.model || 'qwen3-max',
+          clientToken
+        )
+      : undefined;
+
+    // 获取令牌、处理多模态消息并发送请求到上游 Qwen API
+    const messages = requestBody.messages; // 原始消息，供 JSON 模式的纠正请求使用
+    const upstream = await openQwenChatStream(requestBody, activeSessionKey);
+    // 上游尝试次数（包含故障转移重试）
+    const attemptsHeader = { 'X-Upstream-Attempts': String(upstream.attempts) };
+    if (!upstream.ok) {
+      return {
+        status: upstream.status,
+        body: upstream.body,
+        headers: attemptsHeader
+      };
+    }
+
+    // 响应输出选项（思考内容格式、工具调用解析等）
+    const outputOptions = resolveOutputOptions(requestBody);
+
+    // JSON 模式：完整读取并校验后再返回
+    if (getResponseFormatType(requestBody.response_format)) {
+      const jsonResult = await collectJsonModeCompletion(
+        requestBody,
+        messages,
+        upstream.body,
+        outputOptions
+      );
+      if (!jsonResult.ok) {
+        return {
+          status: jsonResult.status,
+          body: jsonResult.body,
+          headers: attemptsHeader
+        };
+      }
+      const completion = buildOpenAIChatCompletion(jsonResult.result);
+      if (requestBody.stream !== true) {
+        return { status: 200, body: completion, headers: attemptsHeader };
+      }
+      return {
+        status: 200,
+        body: createOpenAIStreamFromCompletion(
+          completion,
+          outputOptions.includeUsage
+        ),
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          ...attemptsHeader
+        }
+      };
+    }
+
+    // 非流式请求：读取完整的上游流并返回单个 chat.completion 对象
+    if (requestBody.stream !== true) {
+      const result = await collectQwenCompletion(upstream.body, outputOptions);
+      return {
+        status: 200,
+        body: buildOpenAIChatCompletion(result),
+        headers: attemptsHeader
+      };
+    }
+
+    // 将响应流转换并发送给客户端
+    const transformedStream = upstream.body
+      .pipeThrough(createQwenSseParser())
+      .pipeThrough(createQwenToOpenAIStreamTransformer(outputOptions));
+
+    // 返回流式响应配置
+    return {
+      status: 200,
+      body: transformedStream,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        ...attemptsHeader
+      }
+    };
+  } catch (err) {
+    console.error('聊天完成代理中出错：', (err as Error).message);
+    return {
+      status: 500,
+      body: { error: '内部服务器错误' }
+    };
+  }
+}
+
+/**
+ * 处理 Anthropic Messages API 请求的逻辑
+ *
+ * 将请求转换为 OpenAI 格式后复用聊天管道（令牌轮换、多模态上传、Qwen 转换），
+ * 再将 Qwen 响应转换为 Anthropic 格式的 SSE 事件流或消息对象
+ *
+ * @param anthropicRequest Anthropic Messages 格式的请求体
+ * @returns 包含流式响应或错误信息的响应对象
+ */
+async function handleAnthropicMessages(anthropicRequest: any) {
+  try {
+    const requestBody = transformAnthropicRequestToOpenAI(anthropicRequest);
+    const upstream = await openQwenChatStream(requestBody);
+    // 上游尝试次数（包含故障转移重试）
+    const attemptsHeader = { 'X-Upstream-Attempts': String(upstream.attempts) };
+    if (!upstream.ok) {
+      return {
+        status: upstream.status,
+        body: toAnthropicError(upstream.status, upstream.body),
+        headers: attemptsHeader
+      };
+    }
+
+    const outputOptions = resolveOutputOptions(requestBody);
+
+    // 非流式请求：返回单个 message 对象
+    if (!requestBody.stream) {
+      const result = await collectQwenCompletion(upstream.body, outputOptions);
+      return {
+        status: 200,
+        body: buildAnthropicMessage(result),
+        headers: attemptsHeader
+      };
+    }
+
+    const transformedStream = upstream.body
+      .pipeThrough(createQwenSseParser())
+      .pipeThrough(
+        createQwenToAnthropicStreamTransformer(
+          outputOptions,
+          anthropicRequest.model || 'qwen3-max'
+        )
+      );
+
+    return {
+      status: 200,
+      body: transformedStream,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        ...attemptsHeader
       }
+    };
+  } catch (err) {
+    console.error('Anthropic 消息代理中出错：', (err as Error).message);
+    return {
+      status: 500,
+      body: toAnthropicError(500, { error: '内部服务器错误' })
+    };
+  }
+}
+
+/**
+ * 处理 OpenAI Responses API 请求的逻辑
+ *
+ * 将请求转换为 OpenAI 聊天格式后复用聊天管道（processMessagesForQwen、
+ * Qwen 流解析器），再转换为 Responses API 的事件流或响应对象
+ *
+ * text.format 为 json_object 或 json_schema 时，与 response_format 一样先完整读取并校验 JSON
+ *
+ * @param responsesRequest Responses API 格式的请求体
+ * @returns 包含流式响应或错误信息的响应对象
+ */
+async function handleResponses(responsesRequest: any) {
+  try {
+    const requestBody = transformResponsesRequestToOpenAI(responsesRequest);
+    const messages = requestBody.messages; // 原始消息，供 JSON 模式的纠正请求使用
+    const upstream = await openQwenChatStream(requestBody);
+    // 上游尝试次数（包含故障转移重试）
+    const attemptsHeader = { 'X-Upstream-Attempts': String(upstream.attempts) };
+    if (!upstream.ok) {
+      return {
+        status: upstream.status,
+        body: upstream.body,
+        headers: attemptsHeader
+      };
     }
 
-    // 返回 OpenAI 兼容格式的模型列表
+    const outputOptions = resolveOutputOptions(requestBody);
+
+    // text.format 为 JSON 模式时：完整读取并校验后再返回
+    if (getResponseFormatType(requestBody.response_format)) {
+      const jsonResult = await collectJsonModeCompletion(
+        requestBody,
+        messages,
+        upstream.body,
+        outputOptions
+      );
+      if (!jsonResult.ok) {
+        return {
+          status: jsonResult.status,
+          body: jsonResult.body,
+          headers: attemptsHeader
+        };
+      }
+      const response = buildResponsesObject(
+        jsonResult.result,
+        responsesRequest
+      );
+      if (!requestBody.stream) {
+        return { status: 200, body: response, headers: attemptsHeader };
+      }
+      return {
+        status: 200,
+        body: createResponsesStreamFromObject(response),
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          ...attemptsHeader
+        }
+      };
+    }
+
+    // 非流式请求：返回单个 response 对象
+    if (!requestBody.stream) {
+      const result = await collectQwenCompletion(upstream.body, outputOptions);
+      return {
+        status: 200,
+        body: buildResponsesObject(result, responsesRequest),
+        headers: attemptsHeader
+      };
+    }
+
+    const transformedStream = upstream.body
+      .pipeThrough(createQwenSseParser())
+      .pipeThrough(
+        createQwenToResponsesStreamTransformer(outputOptions, responsesRequest)
+      );
+
     return {
       status: 200,
-      body: { object: 'list', data: processedModels }
+      body: transformedStream,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        ...attemptsHeader
+      }
     };
   } catch (err) {
-    console.error('获取模型时出错：', (err as Error).message);
+    console.error('Responses 代理中出错：', (err as Error).message);
     return {
-      status: 502,
-      body: { error: '从上游 API 获取模型失败。' }
+      status: 500,
+      body: { error: '内部服务器错误' }
+    };
+  }
+}
+
+/**
+ * 处理图像生成请求的逻辑
+ *
+ * 工作流程：
+ * 1. 将 prompt 转换为 -image 模型的聊天请求（chat_type: t2i）
+ * 2. 将 size 映射为 Qwen 宽高比
+ * 3. 按 n 依次发起生成，从 Qwen 流中提取图像 URL
+ * 4. 按 response_format 返回 url 或由代理下载后的 b64_json
+ *
+ * @param imageRequest OpenAI 图像生成格式的请求体
+ * @returns 包含图像列表或错误信息的响应对象
+ */
+async function handleImageGenerations(imageRequest: any) {
+  if (!imageRequest?.prompt) {
+    return { status: 400, body: { error: '缺少 prompt 参数' } };
+  }
+
+  const count = Math.min(Math.max(Number(imageRequest.n) || 1, 1), 4);
+  const baseModel = (imageRequest.model || 'qwen3-max').replace(/-image$/, '');
+  const responseFormat =
+    imageRequest.response_format === 'b64_json' ? 'b64_json' : 'url';
+
+  try {
+    const data: any[] = [];
+    while (data.length < count) {
+      const requestBody = {
+        model: `${baseModel}-image`,
+        messages: [{ role: 'user', content: imageRequest.prompt }],
+        size: mapImageSizeToAspectRatio(imageRequest.size)
+      };
+      const upstream = await openQwenChatStream(requestBody);
+      if (!upstream.ok) {
+        return { status: upstream.status, body: upstream.body };
+      }
+
+      const result = await collectQwenCompletion(
+        upstream.body,
+        resolveOutputOptions(requestBody)
+      );
+      const urls = extractImageUrls(result.content);
+      if (urls.length === 0) {
+        console.error('上游未返回图像 URL：', result.content);
+        return {
+          status: 502,
+          body: { error: '上游未返回图像', details: result.content }
+        };
+      }
+
+      for (const url of urls.slice(0, count - data.length)) {
+        data.push(
+          responseFormat === 'b64_json'
+            ? {
+                b64_json: await downloadImageAsBase64(url),
+                revised_prompt: imageRequest.prompt
+              }
+            : { url, revised_prompt: imageRequest.prompt }
+        );
+      }
+    }
+
+    return {
+      status: 200,
+      body: { created: Math.floor(Date.now() / 1000), data }
+    };
+  } catch (err) {
+    console.error('图像生成代理中出错：', (err as Error).message);
+    return {
+      status: 500,
+      body: { error: '内部服务器错误' }
+    };
+  }
+}
+
+/**
+ * 处理创建视频生成任务的请求
+ * 任务记录写入 KV 后立即返回，上游生成过程在后台跟踪
+ *
+ * @param videoRequest 视频生成请求体（model、prompt、size）
+ * @returns 包含任务记录或错误信息的响应对象
+ */
+async function handleCreateVideo(videoRequest: any) {
+  if (!videoRequest?.prompt) {
+    return { status: 400, body: { error: '缺少 prompt 参数' } };
+  }
+
+  const job: VideoJob = {
+    id: `video_${crypto.randomUUID().replace(/-/g, '')}`,
+    object: 'video',
+    status: 'queued',
+    model: videoRequest.model || 'qwen3-max',
+    prompt: videoRequest.prompt,
+    size: mapImageSizeToAspectRatio(
+      videoRequest.aspect_ratio || videoRequest.size
+    ),
+    created_at: Math.floor(Date.now() / 1000),
+    completed_at: null,
+    task_id: null,
+    url: null,
+    error: null
+  };
+  await kvStore.setVideoJob(job);
+
+  // 在后台跟踪上游任务，不阻塞响应
+  trackVideoJob(job).catch(err =>
+    console.error(`视频任务 ${job.id} 状态更新失败：`, err)
+  );
+
+  return { status: 200, body: job };
+}
+
+/**
+ * 处理查询视频生成任务的请求
+ * @param id 任务 ID
+ * @returns 包含任务记录或错误信息的响应对象
+ */
+async function handleGetVideo(id: string) {
+  const job = await kvStore.getVideoJob(id);
+  if (!job) {
+    return { status: 404, body: { error: '视频任务不存在或已过期' } };
+  }
+  return { status: 200, body: job };
+}
+
+/**
+ * 处理取消视频生成任务的请求
+ * 只将任务标记为已取消，后台跟踪任务在下一次轮询时删除上游聊天以终止生成
+ *
+ * @param id 任务 ID
+ * @returns 包含任务记录或错误信息的响应对象
+ */
+async function handleCancelVideo(id: string) {
+  let job = null as VideoJob | null; // 取消时读取到的最新任务
+  const cancelled = await kvStore.updateVideoJob(id, current => {
+    job = current;
+    if (current.status !== 'queued' && current.status !== 'in_progress') {
+      return null;
+    }
+    return {
+      ...current,
+      status: 'cancelled',
+      completed_at: Math.floor(Date.now() / 1000)
+    };
+  });
+
+  if (!job) {
+    return { status: 404, body: { error: '视频任务不存在或已过期' } };
+  }
+  if (!cancelled) {
+    return {
+      status: 409,
+      body: { error: `任务已处于 ${job.status} 状态，无法取消` }
+    };
+  }
+  return { status: 200, body: cancelled };
+}
+
+/**
+ * 处理 Ollama /api/tags 请求：基于 handleGetModels 返回本地模型列表格式
+ * @returns 包含模型列表或错误信息的响应对象
+ */
+async function handleOllamaTags() {
+  const result = await handleGetModels();
+  if (result.status !== 200) return result;
+
+  const now = new Date().toISOString();
+  const models = ((result.body as any).data || []).map((model: any) => ({
+    name: model.id,
+    model: model.id,
+    modified_at: now,
+    size: 0,
+    digest: '',
+    details: OLLAMA_MODEL_DETAILS
+  }));
+  return { status: 200, body: { models } };
+}
+
+/**
+ * 处理 Ollama /api/show 请求：返回指定模型的详情和能力
+ * @param showRequest 包含 model（或旧版 name）字段的请求体
+ * @returns 包含模型详情或错误信息的响应对象
+ */
+async function handleOllamaShow(showRequest: any) {
+  const name = showRequest?.model || showRequest?.name;
+  const result = await handleGetModels();
+  if (result.status !== 200) return result;
+
+  const model = ((result.body as any).data || []).find(
+    (item: any) => item.id === name
+  );
+  if (!model) {
+    return { status: 404, body: { error: `model '${name}' not found` } };
+  }
+
+  // 根据上游模型能力生成 Ollama capabilities
+  const abilities = model?.info?.meta?.abilities || {};
+  const capabilities = ['completion', 'tools'];
+  if (abilities.vision) capabilities.push('vision');
+  if (abilities.thinking) capabilities.push('thinking');
+
+  return {
+    status: 200,
+    body: {
+      modelfile: '',
+      parameters: '',
+      template: '',
+      details: OLLAMA_MODEL_DETAILS,
+      model_info: {
+        'general.architecture': 'qwen',
+        'general.basename': model.id
+      },
+      capabilities,
+      modified_at: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * 处理 Ollama /api/chat 和 /api/generate 请求
+ *
+ * 将请求转换为 OpenAI 格式后复用聊天管道，再转换为 Ollama 的 NDJSON 流
+ * 或单个响应对象，思考内容映射到 Ollama 的 thinking 字段
+ *
+ * format 为 json 或 JSON Schema 时，与 response_format 一样先完整读取并校验 JSON
+ *
+ * @param ollamaRequest Ollama 格式的请求体
+ * @param mode 请求来源：chat 或 generate
+ * @returns 包含流式响应或错误信息的响应对象
+ */
+async function handleOllamaChat(ollamaRequest: any, mode: 'chat' | 'generate') {
+  const startTime = Date.now();
+  const model = ollamaRequest?.model || 'qwen3-max';
+
+  try {
+    const requestBody = transformOllamaRequestToOpenAI(ollamaRequest, mode);
+    const messages = requestBody.messages; // 原始消息，供 JSON 模式的纠正请求使用
+    const upstream = await openQwenChatStream(requestBody);
+    // 上游尝试次数（包含故障转移重试）
+    const attemptsHeader = { 'X-Upstream-Attempts': String(upstream.attempts) };
+    if (!upstream.ok) {
+      const body = upstream.body;
+      return {
+        status: upstream.status,
+        body: {
+          error:
+            typeof body?.details === 'string'
+              ? `${body.error}: ${body.details}`
+              : body?.error || '上游 API 请求失败'
+        },
+        headers: attemptsHeader
+      };
+    }
+
+    const outputOptions = resolveOutputOptions(requestBody);
+
+    // format 为 json 或 JSON Schema 时：完整读取并校验后再返回
+    if (getResponseFormatType(requestBody.response_format)) {
+      const jsonResult = await collectJsonModeCompletion(
+        requestBody,
+        messages,
+        upstream.body,
+        outputOptions
+      );
+      if (!jsonResult.ok) {
+        const body = jsonResult.body;
+        return {
+          status: jsonResult.status,
+          body: {
+            error: Array.isArray(body?.details)
+              ? `${body.error}: ${body.details.join('; ')}`
+              : body?.error || '上游 API 请求失败'
+          },
+          headers: attemptsHeader
+        };
+      }
+      const response = buildOllamaResponse(
+        jsonResult.result,
+        model,
+        mode,
+        startTime
+      );
+      if (!requestBody.stream) {
+        return { status: 200, body: response, headers: attemptsHeader };
+      }
+      return {
+        status: 200,
+        body: createOllamaStreamFromResponse(response, mode),
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          'Cache-Control': 'no-cache',
+          ...attemptsHeader
+        }
+      };
+    }
+
+    // 非流式请求：返回单个响应对象
+    if (!requestBody.stream) {
+      const result = await collectQwenCompletion(upstream.body, outputOptions);
+      return {
+        status: 200,
+        body: buildOllamaResponse(result, model, mode, startTime),
+        headers: attemptsHeader
+      };
+    }
+
+    const transformedStream = upstream.body
+      .pipeThrough(createQwenSseParser())
+      .pipeThrough(
+        createQwenToOllamaStreamTransformer(outputOptions, model, mode)
+      );
+
+    return {
+      status: 200,
+      body: transformedStream,
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        ...attemptsHeader
+      }
+    };
+  } catch (err) {
+    console.error('Ollama 代理中出错：', (err as Error).message);
+    return {
+      status: 500,
+      body: { error: '内部服务器错误' }
+    };
+  }
+}
+
+/**
+ * 处理 Gemini generateContent / streamGenerateContent 请求的逻辑
+ *
+ * 将请求转换为 OpenAI 格式后复用聊天管道（inlineData 图像经由
+ * processMessagesForQwen 上传到 OSS），再将 Qwen 响应转换为 Gemini 候选结果
+ *
+ * @param geminiRequest Gemini 格式的请求体
+ * @param model 路径中的模型名称
+ * @param action 路径中的方法：generateContent 或 streamGenerateContent
+ * @param alt 查询参数 alt，为 sse 时以 SSE 格式输出流式响应
+ * @returns 包含流式响应或错误信息的响应对象
+ */
+async function handleGeminiGenerateContent(
+  geminiRequest: any,
+  model: string,
+  action: string,
+  alt: string | null
+) {
+  if (action !== 'generateContent' && action !== 'streamGenerateContent') {
+    return {
+      status: 404,
+      body: toGeminiError(404, { error: `不支持的方法: ${action}` })
+    };
+  }
+
+  try {
+    const stream = action === 'streamGenerateContent';
+    const requestBody = transformGeminiRequestToOpenAI(
+      geminiRequest,
+      model,
+      stream
+    );
+    const includeThoughts =
+      geminiRequest?.generationConfig?.thinkingConfig?.includeThoughts === true;
+
+    const upstream = await openQwenChatStream(requestBody);
+    // 上游尝试次数（包含故障转移重试）
+    const attemptsHeader = { 'X-Upstream-Attempts': String(upstream.attempts) };
+    if (!upstream.ok) {
+      return {
+        status: upstream.status,
+        body: toGeminiError(upstream.status, upstream.body),
+        headers: attemptsHeader
+      };
+    }
+
+    const outputOptions = resolveOutputOptions(requestBody);
+
+    // 非流式请求：返回单个 GenerateContentResponse
+    if (!stream) {
+      const result = await collectQwenCompletion(upstream.body, outputOptions);
+      return {
+        status: 200,
+        body: buildGeminiResponse(result, model, includeThoughts),
+        headers: attemptsHeader
+      };
+    }
+
+    const sse = alt === 'sse';
+    const transformedStream = upstream.body
+      .pipeThrough(createQwenSseParser())
+      .pipeThrough(
+        createQwenToGeminiStreamTransformer(
+          outputOptions,
+          model,
+          includeThoughts,
+          sse
+        )
+      );
+
+    return {
+      status: 200,
+      body: transformedStream,
+      headers: {
+        ...(sse
+          ? {
+              'Content-Type': 'text/event-stream',
+              'Cache-Control': 'no-cache',
+              Connection: 'keep-alive'
+            }
+          : {
+              'Content-Type': 'application/json',
+              'Cache-Control': 'no-cache'
+            }),
+        ...attemptsHeader
+      }
+    };
+  } catch (err) {
+    console.error('Gemini 代理中出错：', (err as Error).message);
+    return {
+      status: 500,
+      body: toGeminiError(500, { error: '内部服务器错误' })
     };
   }
 }
 
 /**
- * 处理聊天完成请求的逻辑
+ * 处理 OpenAI Legacy Completions 请求的逻辑
  *
- * 工作流程：
- * 1. 验证上游令牌可用性
- * 2. 解析 OpenAI 格式的请求
- * 3. 异步处理消息中的图像上传
- * 4. 将请求转换为 Qwen 格式
- * 5. 转发请求到 Qwen API
- * 6. 转换响应流为 OpenAI 格式
- * 7. 返回流式响应给客户端
+ * 每个 prompt 作为一条用户消息单独发送到聊天管道，
+ * 结果按 prompt 顺序作为 choices 返回，并应用 echo、suffix 和 stop 参数
  *
- * @param requestBody OpenAI 格式的请求体
+ * @param completionRequest Completions 格式的请求体
  * @returns 包含流式响应或错误信息的响应对象
  */
-async function handleChatCompletions(requestBody: any) {
-  // 获取轮换的上游令牌
-  const token = await getUpstreamToken();
-  if (!token) {
+async function handleCompletions(completionRequest: any) {
+  const prompts = normalizeCompletionPrompts(completionRequest?.prompt);
+  if (!prompts) {
     return {
-      status: 503,
-      body: { error: '上游令牌未配置。' }
+      status: 400,
+      body: { error: 'prompt 参数必须是字符串或字符串数组' }
     };
   }
-
-  try {
-    // 异步处理消息以进行文件上传（在转换请求之前）
-    requestBody.messages = await processMessagesForQwen(
-      requestBody.messages,
-      token
-    );
-
-    // 将 OpenAI 请求转换为 Qwen 格式
-    const qwenRequest = transformOpenAIRequestToQwen(requestBody);
-
-    // 构建请求头
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-      'User-Agent':
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' // 模拟浏览器
+  if (prompts.length > COMPLETIONS_CONFIG.maxPrompts) {
+    return {
+      status: 400,
+      body: {
+        error: `prompt 数组最多包含 ${COMPLETIONS_CONFIG.maxPrompts} 个元素`
+      }
     };
+  }
 
-    // 如果有可用的 SSXMOD_ITNA，添加到请求头中
-    const ssxmodItna = await getValidSsxmodItna();
-    if (ssxmodItna) {
-      headers['Cookie'] = `ssxmod_itna=${ssxmodItna}`;
-    }
-
-    // 打印信息用于离线调试
-    console.log('url', 'https://chat.qwen.ai/api/chat/completions');
-    console.log('headers', JSON.stringify(headers, null, 2));
-    console.log('body', JSON.stringify(qwenRequest, null, 2));
-
-    // 向上游 Qwen API 发送请求
-    const upstreamResponse = await fetch(
-      'https://chat.qwen.ai/api/chat/completions',
-      {
-        method: 'POST',
-        headers: headers,
-        body: JSON.stringify(qwenRequest)
-      }
-    );
+  // 所有 prompt 的上游尝试次数之和（包含故障转移重试）
+  let attempts = 0;
+  const attemptsHeader = () => ({ 'X-Upstream-Attempts': String(attempts) });
 
-    // 检查上游响应是否成功
-    if (!upstreamResponse.ok || !upstreamResponse.body) {
-      const errorBody = await upstreamResponse.text();
-      console.error(`上游 API 错误：${upstreamResponse.status}`, errorBody);
+  try {
+    // 非流式请求：依次请求并聚合每个 prompt 的结果
+    if (completionRequest.stream !== true) {
+      const choices: TextCompletionChoice[] = [];
+      const usage: OpenAIUsage = {
+        prompt_tokens: 0,
+        completion_tokens: 0,
+        total_tokens: 0
+      };
+      let model = completionRequest.model || 'qwen3-max';
 
-      // 4xx 错误处理：标记相关令牌为失效状态
-      if (upstreamResponse.status >= 400 && upstreamResponse.status < 500) {
-        console.warn(
-          `检测到 4xx 错误 (${upstreamResponse.status})，开始标记相关令牌为失效状态`
+      for (const [index, prompt] of prompts.entries()) {
+        const requestBody = transformCompletionRequestToOpenAI(
+          completionRequest,
+          prompt
         );
-
-        // 标记 API_KEY 为失效
-        await markAsInvalid('apiKey', token);
-
-        // 如果使用了 ssxmod_itna，也标记为失效
-        if (ssxmodItna) {
-          await markAsInvalid('ssxmod', ssxmodItna);
+        const upstream = await openQwenChatStream(requestBody);
+        attempts += upstream.attempts;
+        if (!upstream.ok) {
+          return {
+            status: upstream.status,
+            body: upstream.body,
+            headers: attemptsHeader()
+          };
         }
-
-        console.warn('令牌已标记为失效，后续请求将自动轮换至其他可用令牌');
+        const result = await collectQwenCompletion(
+          upstream.body,
+          resolveOutputOptions(requestBody)
+        );
+        choices.push(
+          buildTextCompletionChoice(result, index, prompt, completionRequest)
+        );
+        model = result.model || model;
+        usage.prompt_tokens += result.usage.prompt_tokens;
+        usage.completion_tokens += result.usage.completion_tokens;
+        usage.total_tokens += result.usage.total_tokens;
       }
 
       return {
-        status: upstreamResponse.status,
-        body: { error: '上游 API 请求失败', details: errorBody }
+        status: 200,
+        body: buildTextCompletion(model, choices, usage),
+        headers: attemptsHeader()
       };
     }
 
-    // 将响应流转换并发送给客户端
-    const transformedStream = upstreamResponse.body.pipeThrough(
-      createQwenToOpenAIStreamTransformer()
-    );
+    // 流式请求：后续 prompt 的上游流在前一个完成后按需打开
+    const entries: TextCompletionEntry[] = prompts.map(prompt => {
+      const requestBody = transformCompletionRequestToOpenAI(
+        completionRequest,
+        prompt
+      );
+      return {
+        prompt,
+        options: resolveOutputOptions(requestBody),
+        open: () => openQwenChatStream(requestBody)
+      };
+    });
+
+    // 先建立第一个上游连接，确保其错误在发送任何数据前返回
+    // （流式请求的 X-Upstream-Attempts 只统计第一个 prompt 的尝试次数）
+    const first = await entries[0].open();
+    attempts += first.attempts;
+    if (!first.ok) {
+      return {
+        status: first.status,
+        body: first.body,
+        headers: attemptsHeader()
+      };
+    }
+    entries[0].body = first.body;
 
-    // 返回流式响应配置
     return {
       status: 200,
-      body: transformedStream,
+      body: createTextCompletionStream(entries, completionRequest),
       headers: {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
-        Connection: 'keep-alive'
+        Connection: 'keep-alive',
+        ...attemptsHeader()
       }
     };
   } catch (err) {
-    console.error('聊天完成代理中出错：', (err as Error).message);
+    console.error('文本补全代理中出错：', (err as Error).message);
     return {
       status: 500,
       body: { error: '内部服务器错误' }
@@ -1223,12 +8053,37 @@ app.use(async (ctx: any, next: any) => {
     ctx.response.status = 500;
     ctx.response.body = { error: '内部服务器错误' };
   }
-  // 记录所有请求的日志
+  // 记录所有请求的日志（?key= 可能携带代理密钥，记录前脱敏）
+  const loggedUrl = new URL(ctx.request.url);
+  if (loggedUrl.searchParams.has('key')) {
+    loggedUrl.searchParams.set('key', '***');
+  }
   console.log(
-    `${ctx.request.method} ${ctx.request.url} - ${ctx.response.status}`
+    `${ctx.request.method} ${loggedUrl.pathname}${loggedUrl.search} - ${ctx.response.status}`
   );
 });
 
+/**
+ * 从请求中读取客户端提供的访问密钥
+ * 支持 OpenAI 风格的 Authorization: Bearer 头、Anthropic 风格的 x-api-key 头，
+ * 以及 Gemini 风格的 x-goog-api-key 头和 ?key= 查询参数
+ *
+ * @param ctx Oak 上下文
+ * @returns 客户端密钥，未提供时返回 undefined
+ */
+function getClientToken(ctx: any): string | undefined {
+  const authHeader = ctx.request.headers.get('Authorization');
+  if (authHeader) {
+    return authHeader.replace(/^Bearer\s+/, '');
+  }
+  return (
+    ctx.request.headers.get('x-api-key') ||
+    ctx.request.headers.get('x-goog-api-key') ||
+    ctx.request.url.searchParams.get('key') ||
+    undefined
+  );
+}
+
 // 身份验证中间件
 const authMiddleware: Middleware = async (ctx: any, next: any) => {
   const pathname = ctx.request.url.pathname;
@@ -1291,9 +8146,8 @@ const authMiddleware: Middleware = async (ctx: any, next: any) => {
     return;
   }
 
-  // 验证客户端提供的 Authorization 头
-  const authHeader = ctx.request.headers.get('Authorization');
-  const clientToken = authHeader?.replace(/^Bearer\s+/, '');
+  // 验证客户端提供的密钥（Authorization、x-api-key、x-goog-api-key 或 ?key=）
+  const clientToken = getClientToken(ctx);
 
   if (clientToken === config.openaiApiKey) {
     await next(); // 验证通过，继续处理
@@ -1557,8 +8411,17 @@ router.get('/', (ctx: Context) => {
                 <div class="status-number" id="validSsxmod">-</div>
                 <div>有效 SSXMOD</div>
             </div>
+            <div class="status-item">
+                <div class="status-number" id="deletedChats">-</div>
+                <div>已清理聊天</div>
+            </div>
+            <div class="status-item">
+                <div class="status-number" id="pendingChats">-</div>
+                <div>待清理聊天</div>
+            </div>
         </div>
         <button class="button" onclick="refreshStatus()">🔄 刷新状态</button>
+        <button class="button" onclick="checkTokenHealthNow()">🩺 立即检查令牌</button>
         <button class="button danger" onclick="clearInvalidTokens()">🗑️ 清理失效令牌</button>
     </div>
 
@@ -1613,6 +8476,8 @@ router.get('/', (ctx: Context) => {
                     document.getElementById('validApiKeys').textContent = data.apiKeys.valid;
                     document.getElementById('totalSsxmod').textContent = data.ssxmodTokens.total;
                     document.getElementById('validSsxmod').textContent = data.ssxmodTokens.valid;
+                    document.getElementById('deletedChats').textContent = data.chatCleanup.deleted;
+                    document.getElementById('pendingChats').textContent = data.chatCleanup.pending;
                     
                     // 更新令牌表格
                     updateTokensTable(data);
@@ -1624,11 +8489,26 @@ router.get('/', (ctx: Context) => {
             }
         }
 
+        // 转义插入 innerHTML 的文本（错误信息可能包含上游返回的任意内容）
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = String(text);
+            return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+        }
+
+        // 令牌状态文本（冷却中的令牌显示冷却截止时间）
+        function formatTokenStatus(token) {
+            if (!token.isValid) return '失效';
+            if (token.expired) return '已过期';
+            return token.cooldownUntil ? '冷却中（至 ' + token.cooldownUntil + '）' : '有效';
+        }
+
         // 更新令牌表格
         function updateTokensTable(data) {
             const container = document.getElementById('tokensTable');
             
-            let html = '<h3>API Keys</h3>';
+            const health = data.healthCheck;
+            let html = \`<h3>API Keys（最近健康检查: \${health.lastCheckedAt}\${health.report ? '，正常 ' + health.report.healthy + '/' + health.report.total : ''}）</h3>\`;
             if (data.apiKeys.items.length > 0) {
                 html += \`<table>
                     <thead>
@@ -1638,6 +8518,11 @@ router.get('/', (ctx: Context) => {
                             <th>创建时间</th>
                             <th>最后使用</th>
                             <th>错误次数</th>
+                            <th>最近错误</th>
+                            <th>最近检查</th>
+                            <th>延迟</th>
+                            <th>剩余有效期</th>
+                            <th>绑定 SSXMOD</th>
                         </tr>
                     </thead>
                     <tbody>\`;
@@ -1645,10 +8530,15 @@ router.get('/', (ctx: Context) => {
                 data.apiKeys.items.forEach(token => {
                     html += \`<tr>
                         <td><code>\${token.maskedValue}</code></td>
-                        <td class="\${token.isValid ? 'token-valid' : 'token-invalid'}">\${token.isValid ? '有效' : '失效'}</td>
+                        <td class="\${token.isValid && !token.expired && !token.cooldownUntil ? 'token-valid' : 'token-invalid'}">\${formatTokenStatus(token)}</td>
                         <td>\${token.createdAt}</td>
                         <td>\${token.lastUsed}</td>
                         <td>\${token.errorCount}</td>
+                        <td>\${escapeHtml(token.lastError || '-')}</td>
+                        <td>\${token.lastCheckedAt}</td>
+                        <td>\${token.latency === null ? '-' : token.latency + 'ms'}</td>
+                        <td>\${token.expiresIn || '未知'}</td>
+                        <td>\${token.pairedSsxmod ? '<code>' + token.pairedSsxmod + '</code>' : '<span title="未绑定 Cookie（如旧版导入），使用共享的 SSXMOD；重新导入完整 Cookie 即可绑定">共享</span>'}</td>
                     </tr>\`;
                 });
                 html += '</tbody></table>';
@@ -1656,7 +8546,7 @@ router.get('/', (ctx: Context) => {
                 html += '<p>暂无 API Keys</p>';
             }
             
-            html += '<h3>SSXMOD Tokens</h3>';
+            html += '<h3>SSXMOD Tokens（共享，供未绑定 SSXMOD 的 API Key 使用）</h3>';
             if (data.ssxmodTokens.items.length > 0) {
                 html += \`<table>
                     <thead>
@@ -1666,6 +8556,7 @@ router.get('/', (ctx: Context) => {
                             <th>创建时间</th>
                             <th>最后使用</th>
                             <th>错误次数</th>
+                            <th>最近错误</th>
                         </tr>
                     </thead>
                     <tbody>\`;
@@ -1673,16 +8564,43 @@ router.get('/', (ctx: Context) => {
                 data.ssxmodTokens.items.forEach(token => {
                     html += \`<tr>
                         <td><code>\${token.maskedValue}</code></td>
-                        <td class="\${token.isValid ? 'token-valid' : 'token-invalid'}">\${token.isValid ? '有效' : '失效'}</td>
+                        <td class="\${token.isValid && !token.expired && !token.cooldownUntil ? 'token-valid' : 'token-invalid'}">\${formatTokenStatus(token)}</td>
                         <td>\${token.createdAt}</td>
                         <td>\${token.lastUsed}</td>
                         <td>\${token.errorCount}</td>
+                        <td>\${escapeHtml(token.lastError || '-')}</td>
                     </tr>\`;
                 });
                 html += '</tbody></table>';
             } else {
                 html += '<p>暂无 SSXMOD Tokens</p>';
             }
+
+            html += \`<h3>上游聊天清理（策略: \${data.chatCleanup.mode}，最近后台清理: \${data.chatCleanup.lastSweepAt}）</h3>\`;
+            if (data.chatCleanup.tokens.length > 0) {
+                html += \`<table>
+                    <thead>
+                        <tr>
+                            <th>掩码值</th>
+                            <th>已清理</th>
+                            <th>失败次数</th>
+                            <th>最近错误</th>
+                        </tr>
+                    </thead>
+                    <tbody>\`;
+
+                data.chatCleanup.tokens.forEach(token => {
+                    html += \`<tr>
+                        <td><code>\${token.maskedValue}</code></td>
+                        <td>\${token.deleted}</td>
+                        <td>\${token.failed}</td>
+                        <td>\${escapeHtml(token.lastError || '-')}</td>
+                    </tr>\`;
+                });
+                html += '</tbody></table>';
+            } else {
+                html += '<p>暂无清理记录</p>';
+            }
             
             container.innerHTML = html;
         }
@@ -1744,6 +8662,48 @@ router.get('/', (ctx: Context) => {
             }
         }
 
+        // 立即执行令牌健康检查
+        async function checkTokenHealthNow() {
+            const authKey = document.getElementById('authKey').value.trim();
+            if (!authKey) {
+                Swal.fire('提示', '请先在导入区域输入身份验证密钥', 'warning');
+                return;
+            }
+
+            Swal.fire({
+                title: '正在检查令牌...',
+                allowOutsideClick: false,
+                didOpen: () => Swal.showLoading()
+            });
+
+            try {
+                const response = await fetch('/cookies/health-check', {
+                    method: 'POST',
+                    headers: { 'Authorization': \`Bearer \${authKey}\` }
+                });
+                const result = await response.json();
+
+                if (result.success) {
+                    const report = result.data.report;
+                    Swal.fire({
+                        title: '检查完成',
+                        html: \`
+                            <p>正常 <strong>\${report.healthy}</strong> / \${report.total} 个 API Key</p>
+                            <p>恢复 <strong>\${report.revived}</strong> 个，失效 <strong>\${report.invalidated}</strong> 个</p>
+                            \${report.ssxmod ? \`<p>正常 <strong>\${report.ssxmod.healthy}</strong> / \${report.ssxmod.total} 个 SSXMOD_ITNA，恢复 \${report.ssxmod.revived} 个，失效 \${report.ssxmod.invalidated} 个</p>\` : ''}
+                            <p>耗时 \${report.durationMs}ms</p>
+                        \`,
+                        icon: 'success'
+                    });
+                    refreshStatus();
+                } else {
+                    Swal.fire('检查失败', result.message || result.error || '身份验证失败，请检查密钥是否正确', 'error');
+                }
+            } catch (error) {
+                Swal.fire('错误', '检查过程中发生错误: ' + error.message, 'error');
+            }
+        }
+
         // 清理失效令牌
         async function clearInvalidTokens() {
             const result = await Swal.fire({
@@ -1808,7 +8768,189 @@ router.post('/v1/chat/completions', async (ctx: Context) => {
   // 解析客户端的 OpenAI 格式请求
   const requestBody = await ctx.request.body({ type: 'json' }).value;
 
-  const result = await handleChatCompletions(requestBody);
+  const result = await handleChatCompletions(
+    requestBody,
+    ctx.request.headers.get(SESSION_CONFIG.header) || undefined,
+    getClientToken(ctx)
+  );
+
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+
+  // 如果有自定义头部，设置它们
+  if (result.headers) {
+    for (const [key, value] of Object.entries(result.headers)) {
+      ctx.response.headers.set(key, value);
+    }
+  }
+});
+
+/**
+ * POST /v1/messages
+ * Anthropic Messages API 兼容端点
+ */
+router.post('/v1/messages', async (ctx: Context) => {
+  // 解析客户端的 Anthropic 格式请求
+  const requestBody = await ctx.request.body({ type: 'json' }).value;
+
+  const result = await handleAnthropicMessages(requestBody);
+
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+
+  // 如果有自定义头部，设置它们
+  if (result.headers) {
+    for (const [key, value] of Object.entries(result.headers)) {
+      ctx.response.headers.set(key, value);
+    }
+  }
+});
+
+/**
+ * POST /v1/responses
+ * OpenAI Responses API 兼容端点
+ */
+router.post('/v1/responses', async (ctx: Context) => {
+  // 解析客户端的 Responses 格式请求
+  const requestBody = await ctx.request.body({ type: 'json' }).value;
+
+  const result = await handleResponses(requestBody);
+
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+
+  // 如果有自定义头部，设置它们
+  if (result.headers) {
+    for (const [key, value] of Object.entries(result.headers)) {
+      ctx.response.headers.set(key, value);
+    }
+  }
+});
+
+/**
+ * POST /v1/images/generations
+ * 图像生成端点（基于 Qwen t2i 聊天类型）
+ */
+router.post('/v1/images/generations', async (ctx: Context) => {
+  const requestBody = await ctx.request.body({ type: 'json' }).value;
+  const result = await handleImageGenerations(requestBody);
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+});
+
+/**
+ * POST /v1/videos
+ * 创建视频生成任务（基于 Qwen t2v 聊天类型）
+ */
+router.post('/v1/videos', async (ctx: Context) => {
+  const requestBody = await ctx.request.body({ type: 'json' }).value;
+  const result = await handleCreateVideo(requestBody);
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+});
+
+/**
+ * GET /v1/videos/:id
+ * 查询视频生成任务的状态和结果 URL
+ */
+router.get('/v1/videos/:id', async (ctx: any) => {
+  const result = await handleGetVideo(ctx.params.id);
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+});
+
+/**
+ * DELETE /v1/videos/:id
+ * 取消视频生成任务
+ */
+router.delete('/v1/videos/:id', async (ctx: any) => {
+  const result = await handleCancelVideo(ctx.params.id);
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+});
+
+/**
+ * GET /api/tags
+ * Ollama 兼容的模型列表
+ */
+router.get('/api/tags', async (ctx: Context) => {
+  const result = await handleOllamaTags();
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+});
+
+/**
+ * POST /api/show
+ * Ollama 兼容的模型详情
+ */
+router.post('/api/show', async (ctx: Context) => {
+  const requestBody = await ctx.request.body({ type: 'json' }).value;
+  const result = await handleOllamaShow(requestBody);
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+});
+
+/**
+ * POST /api/chat 和 POST /api/generate
+ * Ollama 兼容的聊天与文本生成端点（NDJSON 流式响应）
+ */
+for (const mode of ['chat', 'generate'] as const) {
+  router.post(`/api/${mode}`, async (ctx: Context) => {
+    const requestBody = await ctx.request.body({ type: 'json' }).value;
+
+    const result = await handleOllamaChat(requestBody, mode);
+
+    ctx.response.status = result.status;
+    ctx.response.body = result.body;
+
+    // 如果有自定义头部，设置它们
+    if (result.headers) {
+      for (const [key, value] of Object.entries(result.headers)) {
+        ctx.response.headers.set(key, value);
+      }
+    }
+  });
+}
+
+/**
+ * POST /v1beta/models/{model}:generateContent
+ * POST /v1beta/models/{model}:streamGenerateContent
+ * Gemini API 兼容端点（模型名与方法之间以冒号分隔）
+ */
+router.post('/v1beta/models/:target', async (ctx: any) => {
+  const target: string = ctx.params.target;
+  const separator = target.lastIndexOf(':');
+  const model = separator > 0 ? target.slice(0, separator) : target;
+  const action = separator > 0 ? target.slice(separator + 1) : '';
+
+  const requestBody = await ctx.request.body({ type: 'json' }).value;
+
+  const result = await handleGeminiGenerateContent(
+    requestBody,
+    model,
+    action,
+    ctx.request.url.searchParams.get('alt')
+  );
+
+  ctx.response.status = result.status;
+  ctx.response.body = result.body;
+
+  // 如果有自定义头部，设置它们
+  if (result.headers) {
+    for (const [key, value] of Object.entries(result.headers)) {
+      ctx.response.headers.set(key, value);
+    }
+  }
+});
+
+/**
+ * POST /v1/completions
+ * OpenAI Legacy 文本补全端点
+ */
+router.post('/v1/completions', async (ctx: Context) => {
+  const requestBody = await ctx.request.body({ type: 'json' }).value;
+
+  const result = await handleCompletions(requestBody);
 
   ctx.response.status = result.status;
   ctx.response.body = result.body;
@@ -1832,8 +8974,13 @@ router.get('/cookies', async (ctx: Context) => {
       timestamp: new Date().toLocaleString('zh-CN'),
       apiKeys: {
         total: displayList.apiKeys.length,
-        valid: displayList.apiKeys.filter(item => item.isValid).length,
-        invalid: displayList.apiKeys.filter(item => !item.isValid).length,
+        // 已过期的令牌单独计数，不计入有效或失效
+        valid: displayList.apiKeys.filter(item => item.isValid && !item.expired)
+          .length,
+        invalid: displayList.apiKeys.filter(
+          item => !item.isValid && !item.expired
+        ).length,
+        expired: displayList.apiKeys.filter(item => item.expired).length,
         items: displayList.apiKeys
       },
       ssxmodTokens: {
@@ -1841,7 +8988,9 @@ router.get('/cookies', async (ctx: Context) => {
         valid: displayList.ssxmod.filter(item => item.isValid).length,
         invalid: displayList.ssxmod.filter(item => !item.isValid).length,
         items: displayList.ssxmod
-      }
+      },
+      chatCleanup: await getChatCleanupSummary(),
+      healthCheck: await getHealthCheckSummary()
     };
 
     ctx.response.status = 200;
@@ -1913,6 +9062,34 @@ router.post('/cookies', async (ctx: Context) => {
   }
 });
 
+/**
+ * POST /cookies/health-check
+ * 立即执行一次令牌健康检查（需要身份验证）
+ */
+router.post('/cookies/health-check', async (ctx: Context) => {
+  try {
+    const report = await checkTokenHealth();
+
+    ctx.response.status = 200;
+    ctx.response.body = {
+      success: true,
+      message: `健康检查完成：${report.healthy}/${report.total} 个 API_KEY 正常`,
+      data: {
+        report,
+        tokens: await getDisplayList()
+      }
+    };
+  } catch (error) {
+    console.error('令牌健康检查失败:', error);
+    ctx.response.status = 500;
+    ctx.response.body = {
+      success: false,
+      message: '令牌健康检查失败',
+      error: (error as Error).message
+    };
+  }
+});
+
 /**
  * DELETE /cookies/invalid
  * 删除所有标记为失效的令牌
@@ -1955,6 +9132,31 @@ app.use(router.allowedMethods()); // 应用允许的 HTTP 方法
 // 初始化KV存储
 console.log('初始化KV存储...');
 await kvStore.init();
+await backfillTokenClaims();
+
+// 启动后台上游聊天清理任务
+if (config.chatCleanup === 'sweep') {
+  setInterval(() => {
+    sweepPendingChats().catch(err =>
+      console.error('后台清理上游聊天失败：', err)
+    );
+  }, CHAT_CLEANUP_CONFIG.sweepInterval);
+}
+
+// 启动后台令牌健康检查任务
+if (config.healthCheckInterval > 0) {
+  setInterval(() => {
+    checkTokenHealth().catch(err => console.error('令牌健康检查失败：', err));
+  }, config.healthCheckInterval);
+}
+
+// 启动令牌到期提醒任务
+if (config.tokenExpiryAlertHours > 0) {
+  checkTokenExpiry().catch(err => console.error('令牌到期检查失败：', err));
+  setInterval(() => {
+    checkTokenExpiry().catch(err => console.error('令牌到期检查失败：', err));
+  }, TOKEN_EXPIRY_CONFIG.checkInterval);
+}
 
 // 监听服务器启动事件，输出配置信息
 app.addEventListener('listen', async ({ hostname, port }: any) => {